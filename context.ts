@@ -1,47 +1,83 @@
-import { PrismaClient, User } from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
 import { inferAsyncReturnType } from '@trpc/server';
 import { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';  
+import { CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import { IncomingMessage } from 'http';
 import { env } from './env';
-import jwt, { JwtPayload } from 'jsonwebtoken';
-interface CreateContextOptions {
-  prisma: PrismaClient;
-  user: User;
-}
-
-type JWTPayload = JwtPayload & {
-  externalID: string;
-};
+import jwt from 'jsonwebtoken';
+import { JWTPayload } from './utils/session';
+import { ACCESS_TOKEN_PREFIX, authenticateAccessToken } from './utils/accessToken';
 
-const prisma = new PrismaClient();
+export const prisma = new PrismaClient();
 
 /**
- * Creates context for an incoming request
- * @link https://trpc.io/docs/context
-*/
-export const createContext = async(opts: CreateHTTPContextOptions) => {
-  const { req, res } = opts;
-  const token = req.headers.authorization?.split(' ')[1];
+ * Resolves the user and session an access token belongs to, or the user and personal access token when
+ * given one. Tokens that are invalid, expired, bound to a revoked session or to a deleted user resolve to
+ * no user at all.
+ */
+const authenticate = async (token: string | undefined) => {
   if (!token) {
-    return {
-      req,
-      res,
-      prisma,
-      user: null,
-    }
+    return { user: null, session: null, accessToken: null };
+  }
+  if (token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    const result = await authenticateAccessToken(prisma, token);
+    return { user: result?.user ?? null, session: null, accessToken: result?.accessToken ?? null };
+  }
+  let payload: JWTPayload;
+  try {
+    payload = jwt.verify(token, env.JWT_SECRET, { algorithms: ["HS256"] }) as JWTPayload;
+  } catch {
+    return { user: null, session: null, accessToken: null };
   }
-  const jsonObj = jwt.verify(token, env.JWT_SECRET) as JWTPayload;
-  console.log(jsonObj)
-  const user = await prisma.user.findUnique({
+  const session = await prisma.session.findFirst({
     where: {
-      externalID: jsonObj.externalID,
+      externalID: payload.sessionID,
+      userExternalID: payload.externalID,
+      revoked: false,
+      expiresAt: {
+        gt: new Date(),
+      },
+      user: {
+        deleted: false,
+      },
+    },
+    include: {
+      user: true,
     },
   });
-  console.log(user)
+  if (!session) {
+    return { user: null, session: null, accessToken: null };
+  }
+  const { user, ...rest } = session;
+  return { user, session: rest, accessToken: null };
+};
+
+/**
+ * Reads the access token from the `Authorization` header. Browsers cannot set headers on WebSocket
+ * upgrades, so those may pass it as a `token` query parameter instead.
+ */
+const getToken = (req: IncomingMessage) => {
+  const token = req.headers.authorization?.split(' ')[1];
+  if (token || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    return token;
+  }
+  return new URL(req.url ?? '', 'http://localhost').searchParams.get('token') ?? undefined;
+};
+
+/**
+ * Creates context for an incoming request or WebSocket connection
+ * @link https://trpc.io/docs/context
+*/
+export const createContext = async(opts: CreateHTTPContextOptions | CreateWSSContextFnOptions) => {
+  const { req, res } = opts;
+  const { user, session, accessToken } = await authenticate(getToken(req));
   return {
     req,
     res,
     prisma,
     user,
+    session,
+    accessToken,
   };
 }
 export type Context = inferAsyncReturnType<typeof createContext>;
\ No newline at end of file
@@ -8,9 +8,47 @@ export const env = createEnv({
   server: {
     DATABASE_URL: z.string(),
     JWT_SECRET: z.string(),
+    ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+    REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
+    APP_URL: z.string().url().default("http://localhost:3000"),
+    MAIL_DRIVER: z.enum(["console", "file", "smtp"]).default("console"),
+    MAIL_FROM: z.string().default("Kanbex <no-reply@kanbex.local>"),
+    MAIL_FILE_DIR: z.string().default(".mail"),
+    SMTP_URL: z.string().url().optional(),
+    TRASH_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+    WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+    WEBHOOK_RETRY_BASE_SECONDS: z.coerce.number().int().positive().default(30),
+    WEBHOOK_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(10),
+    WEBHOOK_ALLOW_PRIVATE: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+    TRUST_PROXY: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+    RATE_LIMIT_WINDOW_SECONDS: z.coerce.number().int().positive().default(60),
+    RATE_LIMIT_IP_MAX: z.coerce.number().int().positive().default(20),
+    RATE_LIMIT_USER_MAX: z.coerce.number().int().positive().default(600),
+    LOGIN_LOCKOUT_THRESHOLD: z.coerce.number().int().positive().default(5),
+    LOGIN_LOCKOUT_BASE_SECONDS: z.coerce.number().int().positive().default(60),
+    LOGIN_LOCKOUT_MAX_SECONDS: z.coerce.number().int().positive().default(60 * 60),
   },
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     JWT_SECRET: process.env.JWT_SECRET,
+    ACCESS_TOKEN_TTL_SECONDS: process.env.ACCESS_TOKEN_TTL_SECONDS,
+    REFRESH_TOKEN_TTL_DAYS: process.env.REFRESH_TOKEN_TTL_DAYS,
+    APP_URL: process.env.APP_URL,
+    MAIL_DRIVER: process.env.MAIL_DRIVER,
+    MAIL_FROM: process.env.MAIL_FROM,
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR,
+    SMTP_URL: process.env.SMTP_URL,
+    TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS,
+    WEBHOOK_MAX_ATTEMPTS: process.env.WEBHOOK_MAX_ATTEMPTS,
+    WEBHOOK_RETRY_BASE_SECONDS: process.env.WEBHOOK_RETRY_BASE_SECONDS,
+    WEBHOOK_TIMEOUT_SECONDS: process.env.WEBHOOK_TIMEOUT_SECONDS,
+    WEBHOOK_ALLOW_PRIVATE: process.env.WEBHOOK_ALLOW_PRIVATE,
+    TRUST_PROXY: process.env.TRUST_PROXY,
+    RATE_LIMIT_WINDOW_SECONDS: process.env.RATE_LIMIT_WINDOW_SECONDS,
+    RATE_LIMIT_IP_MAX: process.env.RATE_LIMIT_IP_MAX,
+    RATE_LIMIT_USER_MAX: process.env.RATE_LIMIT_USER_MAX,
+    LOGIN_LOCKOUT_THRESHOLD: process.env.LOGIN_LOCKOUT_THRESHOLD,
+    LOGIN_LOCKOUT_BASE_SECONDS: process.env.LOGIN_LOCKOUT_BASE_SECONDS,
+    LOGIN_LOCKOUT_MAX_SECONDS: process.env.LOGIN_LOCKOUT_MAX_SECONDS,
   },
 });
\ No newline at end of file
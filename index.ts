@@ -1,25 +1,59 @@
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
 import cors from 'cors';
 import express from 'express';
 import swaggerUi from 'swagger-ui-express';
 import redoc from 'redoc-express';
 import { createOpenApiExpressMiddleware } from 'trpc-openapi';
+import { WebSocketServer } from 'ws';
 
 import { appRouter } from './router';
 import { openApiDocument } from './openapi';
-import { createContext } from './context';
+import { createContext, prisma } from './context';
+import { backfillBoardOwners } from './utils/access';
+import { getCalendarFeed, toICalendar } from './utils/calendar';
+import { rateLimitResponseMeta } from './utils/rateLimit';
+import { etagResponseMeta, ifMatchInput, OPENAPI_MAX_BODY_SIZE } from './utils/version';
+import { scheduleTrashPurge } from './utils/trash';
+import { scheduleWebhookDeliveries } from './utils/webhook';
 
 const app = express();
-app.use(cors());
+// Let browsers read the headers clients are expected to act on
+app.use(cors({ exposedHeaders: ['ETag', 'Retry-After'] }));
 
 // Handle incoming tRPC requests
-app.use('/api/trpc', createExpressMiddleware({ router: appRouter, createContext }));
-// Handle incoming OpenAPI requests
-app.use('/api', createOpenApiExpressMiddleware({ router: appRouter, createContext }));
+app.use('/api/trpc', createExpressMiddleware({ router: appRouter, createContext, responseMeta: rateLimitResponseMeta }));
+// Handle incoming OpenAPI requests, writes may send the version they expect as `If-Match`
+app.use('/api', ifMatchInput);
+app.use('/api', createOpenApiExpressMiddleware({
+  router: appRouter,
+  createContext,
+  maxBodySize: OPENAPI_MAX_BODY_SIZE,
+  responseMeta: (opts) => ({
+    headers: {
+      ...rateLimitResponseMeta(opts).headers,
+      ...etagResponseMeta(opts).headers,
+    },
+  }),
+}));
 // Serve OpenAPI schema
 app.get('/docs/swagger.json', (_, res) => {
   res.json(openApiDocument);
 });
+// Serve iCalendar feeds, the secret token in the URL is the only credential calendar apps can send
+app.get('/calendar/:token.ics', async (req, res) => {
+  try {
+    const feed = await getCalendarFeed(prisma, req.params.token);
+    if (!feed) {
+      res.status(404).send('Calendar feed not found');
+      return;
+    }
+    res.type('text/calendar; charset=utf-8').send(toICalendar(feed.title, feed.tasks));
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Something went wrong');
+  }
+});
 
 // Serve Swagger UI with our OpenAPI schema
 app.use('/', swaggerUi.serve);
@@ -30,6 +64,25 @@ app.get('/redoc', redoc({
   specUrl: '/docs/swagger.json',
 }));
 
-app.listen(3000, () => {
+// Give boards created before memberships existed their creator as owner
+backfillBoardOwners(prisma)
+  .then((count) => {
+    if (count > 0) {
+      console.log(`Added an owner to ${count} boards without members`);
+    }
+  })
+  .catch(console.error);
+
+const server = app.listen(3000, () => {
   console.log('Server started on http://localhost:3000');
-});
\ No newline at end of file
+});
+
+// Handle tRPC subscriptions over WebSockets on the same port
+const wss = new WebSocketServer({ server, path: '/api/trpc' });
+applyWSSHandler({ wss, router: appRouter, createContext });
+
+// Hard delete records that have been in the trash for longer than the retention period
+scheduleTrashPurge(prisma);
+
+// Deliver queued webhook events and retry the failed ones
+scheduleWebhookDeliveries(prisma);
\ No newline at end of file
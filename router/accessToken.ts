@@ -0,0 +1,206 @@
+import z from "zod";
+import { router, sessionProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { AccessTokenScope } from "@prisma/client";
+import { generateAccessToken } from "../utils/accessToken";
+
+const accessTokenSchema = z.object({
+  externalID: z.string().uuid(),
+  name: z.string(),
+  scope: z.nativeEnum(AccessTokenScope),
+  expiresAt: z.date().nullable(),
+  lastUsedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+/**
+ * Router handling the personal access tokens of the current user. Tokens are sent as
+ * `Authorization: Bearer kbx_...` in place of a JWT, read-only tokens can only call queries.
+ * @link /api/user/me/token
+ */
+export const accessTokenRouter = router({
+  /**
+   * Procedure for getting the personal access tokens of the current user that have not been revoked
+   * @link /api/user/me/token
+   * @method GET
+   * @example
+   * ```ts
+   * const { tokens } = await trpc.query("accessToken.list", {})
+   * ```
+   * @returns {AccessToken[]} List of tokens, without their secret
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: sessionProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/user/me/token",
+        tags: ["token"],
+        summary: "Get the personal access tokens of the current user",
+      },
+    })
+    .input(z.object({}))
+    .output(
+      z.object({
+        tokens: z.array(accessTokenSchema),
+      })
+    )
+    .query(async ({ ctx }) => {
+      try {
+        const tokens = await ctx.prisma.accessToken.findMany({
+          where: {
+            userExternalID: ctx.user.externalID,
+            revoked: false,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        });
+
+        return {
+          tokens,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a personal access token, the token itself is only returned once
+   * @link /api/user/me/token
+   * @method POST
+   * @example
+   * ```ts
+   * const { token, accessToken } = await trpc.mutation("accessToken.create", {
+   *  input: {
+   *    name: "CI",
+   *    scope: "WRITE",
+   *    expiresAt: "2025-01-01T00:00:00.000Z"
+   *  }
+   * })
+   * ```
+   * @returns {AccessToken} Access token and its secret
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: sessionProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/user/me/token",
+        tags: ["token"],
+        summary: "Create a personal access token",
+      },
+    })
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      scope: z.nativeEnum(AccessTokenScope).default(AccessTokenScope.READ),
+      expiresAt: z.coerce.date().refine((date) => date > new Date(), "Expiry must be in the future").optional(),
+    }))
+    .output(
+      z.object({
+        token: z.string(),
+        accessToken: accessTokenSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { token, tokenHash } = generateAccessToken();
+        const accessToken = await ctx.prisma.accessToken.create({
+          data: {
+            name: input.name,
+            scope: input.scope,
+            expiresAt: input.expiresAt,
+            tokenHash,
+            user: {
+              connect: {
+                externalID: ctx.user.externalID,
+              },
+            },
+          },
+        });
+
+        return {
+          token,
+          accessToken,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for revoking a personal access token, requests made with it are rejected right away
+   * @link /api/user/me/token/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("accessToken.revoke", {
+   *  input: {
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  revoke: sessionProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/user/me/token/{externalID}",
+        tags: ["token"],
+        summary: "Revoke a personal access token",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { count } = await ctx.prisma.accessToken.updateMany({
+          where: {
+            externalID: input.externalID,
+            userExternalID: ctx.user.externalID,
+            revoked: false,
+          },
+          data: {
+            revoked: true,
+          },
+        });
+        if (count === 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Access token not found",
+          });
+        }
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
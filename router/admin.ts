@@ -0,0 +1,422 @@
+import z from "zod";
+import bcrypt from "bcrypt";
+import { ActivityAction, ActivityEntity, Prisma, UserRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { adminProcedure, router } from "../trpc";
+import { AccessContext } from "../utils/access";
+import { revokeAccessTokens } from "../utils/accessToken";
+import { recordActivity } from "../utils/activity";
+import { revokeSessions } from "../utils/session";
+
+const userSchema = z.object({
+  externalID: z.string().uuid(),
+  username: z.string(),
+  name: z.string(),
+  email: z.string(),
+  role: z.nativeEnum(UserRole),
+  deleted: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Fetches any user, including deactivated ones
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getUser = async (ctx: AccessContext, externalID: string) => {
+  const user = await ctx.prisma.user.findUnique({
+    where: {
+      externalID,
+    },
+  });
+  if (!user) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "User not found",
+    });
+  }
+  return user;
+};
+
+/**
+ * Router handling user administration procedures, restricted to `ADMIN` users
+ * @link /api/admin
+ */
+export const adminRouter = router({
+  /**
+   * Procedure for listing and searching all users
+   * @link /api/admin/user
+   * @method GET
+   * @example
+   * ```ts
+   * const { users, total } = await trpc.query("admin.listUsers", {
+   *  input: {
+   *    search: "test",
+   *    status: "all",
+   *    limit: 10,
+   *    offset: 0
+   *  }
+   * })
+   * ```
+   * @returns {User[]} List of users with the total count matching the filters
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  listUsers: adminProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/admin/user",
+        tags: ["admin"],
+        summary: "List all users",
+      },
+    })
+    .input(z.object({
+      search: z.string().optional(),
+      status: z.enum(["active", "deleted", "all"]).default("active"),
+      limit: z.number().min(1).max(100).default(10),
+      offset: z.number().min(0).default(0),
+    }))
+    .output(
+      z.object({
+        users: z.array(userSchema),
+        total: z.number(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where: Prisma.UserWhereInput = {
+          deleted: input.status === "all" ? undefined : input.status === "deleted",
+          OR: input.search ? [
+            { username: { contains: input.search } },
+            { email: { contains: input.search } },
+            { name: { contains: input.search } },
+          ] : undefined,
+        };
+        const [users, total] = await ctx.prisma.$transaction([
+          ctx.prisma.user.findMany({
+            where,
+            orderBy: {
+              createdAt: "desc",
+            },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.user.count({
+            where,
+          }),
+        ]);
+
+        return {
+          users,
+          total,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for promoting or demoting a user
+   * @link /api/admin/user/{externalID}/role
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { user } = await trpc.mutation("admin.setRole", {
+   *  input: {
+   *    externalID: "uuid",
+   *    role: "ADMIN"
+   *  }
+   * })
+   * ```
+   * @returns {User} User
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  setRole: adminProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/admin/user/{externalID}/role",
+        tags: ["admin"],
+        summary: "Change the role of a user",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+      role: z.nativeEnum(UserRole),
+    }))
+    .output(
+      z.object({
+        user: userSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.externalID === ctx.user.externalID) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Admins cannot change their own role",
+          });
+        }
+        const before = await getUser(ctx, input.externalID);
+        const user = await ctx.prisma.user.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            role: input.role,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: null,
+          entity: ActivityEntity.USER,
+          entityID: input.externalID,
+          action: ActivityAction.UPDATE,
+          before: before,
+          after: user,
+        });
+
+        return {
+          user,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deactivating a user
+   * @link /api/admin/user/{externalID}/deactivate
+   * @method POST
+   * @example
+   * ```ts
+   * const { user } = await trpc.mutation("admin.deactivate", {
+   *  input: {
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {User} User
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  deactivate: adminProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/admin/user/{externalID}/deactivate",
+        tags: ["admin"],
+        summary: "Deactivate a user",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        user: userSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.externalID === ctx.user.externalID) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Admins cannot deactivate themselves",
+          });
+        }
+        const before = await getUser(ctx, input.externalID);
+        const user = await ctx.prisma.user.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            deleted: true,
+            deletedAt: new Date(),
+          },
+        });
+        await revokeSessions(ctx.prisma, input.externalID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: null,
+          entity: ActivityEntity.USER,
+          entityID: input.externalID,
+          action: ActivityAction.DELETE,
+          before: before,
+        });
+
+        return {
+          user,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for restoring a deactivated user
+   * @link /api/admin/user/{externalID}/restore
+   * @method POST
+   * @example
+   * ```ts
+   * const { user } = await trpc.mutation("admin.restore", {
+   *  input: {
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {User} User
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  restore: adminProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/admin/user/{externalID}/restore",
+        tags: ["admin"],
+        summary: "Restore a deactivated user",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        user: userSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getUser(ctx, input.externalID);
+        const user = await ctx.prisma.user.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            deleted: false,
+            deletedAt: null,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: null,
+          entity: ActivityEntity.USER,
+          entityID: input.externalID,
+          action: ActivityAction.RESTORE,
+          after: user,
+        });
+
+        return {
+          user,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for force-resetting the password of a user, which also unlocks their account, signs out every
+   * session and revokes every personal access token
+   * @link /api/admin/user/{externalID}/password
+   * @method POST
+   * @example
+   * ```ts
+   * await trpc.mutation("admin.resetPassword", {
+   *  input: {
+   *    externalID: "uuid",
+   *    password: "new-password"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  resetPassword: adminProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/admin/user/{externalID}/password",
+        tags: ["admin"],
+        summary: "Reset the password of a user",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+      password: z.string().min(8),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const before = await getUser(ctx, input.externalID);
+        const hashedPassword = await bcrypt.hash(input.password, 10);
+        const user = await ctx.prisma.user.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            password: hashedPassword,
+            failedLogins: 0,
+            lockedUntil: null,
+          },
+        });
+        await revokeSessions(ctx.prisma, input.externalID);
+        await revokeAccessTokens(ctx.prisma, input.externalID);
+        // Passwords are never logged, so the entry only records that the account was changed
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: null,
+          entity: ActivityEntity.USER,
+          entityID: input.externalID,
+          action: ActivityAction.UPDATE,
+          before: before,
+          after: user,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,424 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { Board } from "@prisma/client";
+import { AccessContext, getAccessibleBoard } from "../utils/access";
+import {
+  completedAt,
+  cumulativeFlow,
+  durationStats,
+  durationStatsSchema,
+  stageDurations,
+  startedAt,
+  taskTimeline,
+  timelineUntil,
+  toHours,
+  weeklyThroughput,
+} from "../utils/analytics";
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 366;
+
+const rangeInput = z.object({
+  boardID: z.string().uuid(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * Resolves the date range of a query, the last 90 days by default
+ * @throws {TRPCError} 400 - Bad Request
+ */
+const getDateRange = (input: z.infer<typeof rangeInput>) => {
+  const to = input.to ?? new Date();
+  const from = input.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY);
+  if (from >= to) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Range must start before it ends",
+    });
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Range cannot span more than ${MAX_RANGE_DAYS} days`,
+    });
+  }
+  return { from, to };
+};
+
+/**
+ * Completion is measured by tasks reaching the done stage, so boards need one
+ * @throws {TRPCError} 412 - Precondition Failed
+ */
+const getDoneStageID = (board: Board) => {
+  if (!board.doneStageExternalID) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Board has no done stage",
+    });
+  }
+  return board.doneStageExternalID;
+};
+
+/**
+ * Loads the live tasks of a board that were created or moved within a date range, along with all of their stage
+ * transitions, oldest first. Other tasks neither completed nor left a stage within the range.
+ */
+const getMovedTasks = (ctx: AccessContext, boardID: string, from: Date, to: Date) => ctx.prisma.task.findMany({
+  where: {
+    deleted: false,
+    stage: {
+      boardExternalID: boardID,
+      deleted: false,
+    },
+    createdAt: {
+      lte: to,
+    },
+    OR: [
+      { createdAt: { gte: from } },
+      { TaskTransition: { some: { createdAt: { gte: from, lte: to } } } },
+    ],
+  },
+  include: {
+    TaskTransition: {
+      orderBy: {
+        createdAt: "asc",
+      },
+    },
+  },
+});
+
+/**
+ * Loads the tasks of a board, deleted ones included, that existed within a date range and were created, moved or
+ * deleted from its start on, along with their stage transitions from then on, oldest first. The first of those
+ * tells which stage a task was in when the range started, earlier ones are not needed.
+ */
+const getFlowTasks = (ctx: AccessContext, boardID: string, from: Date, to: Date) => ctx.prisma.task.findMany({
+  where: {
+    stage: {
+      boardExternalID: boardID,
+    },
+    createdAt: {
+      lte: to,
+    },
+    AND: [
+      {
+        OR: [
+          { deleted: false },
+          { deletedAt: { gte: from } },
+        ],
+      },
+      {
+        OR: [
+          { createdAt: { gte: from } },
+          { deletedAt: { gte: from, lte: to } },
+          { TaskTransition: { some: { createdAt: { gte: from } } } },
+        ],
+      },
+    ],
+  },
+  include: {
+    TaskTransition: {
+      where: {
+        createdAt: {
+          gte: from,
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    },
+  },
+});
+
+/**
+ * Counts per stage the tasks of a board that existed for the whole of a date range without moving, which are
+ * the tasks `getFlowTasks` leaves out
+ */
+const getUnmovedCounts = async (ctx: AccessContext, boardID: string, from: Date, to: Date) => {
+  const groups = await ctx.prisma.task.groupBy({
+    by: ["stageExternalID"],
+    where: {
+      stage: {
+        boardExternalID: boardID,
+      },
+      createdAt: {
+        lt: from,
+      },
+      OR: [
+        { deleted: false },
+        { deletedAt: { gt: to } },
+      ],
+      TaskTransition: {
+        none: {
+          createdAt: {
+            gte: from,
+          },
+        },
+      },
+    },
+    _count: {
+      _all: true,
+    },
+  });
+  return new Map(groups.map((group) => [group.stageExternalID, group._count._all]));
+};
+
+/**
+ * Loads the live stages of a board in board order
+ */
+const getBoardStages = (ctx: AccessContext, boardID: string) => ctx.prisma.stage.findMany({
+  where: {
+    boardExternalID: boardID,
+    deleted: false,
+  },
+  orderBy: [
+    { rank: "asc" },
+    { createdAt: "asc" },
+  ],
+});
+
+/**
+ * Router handling the flow metrics of a board. Durations are in hours and dates in UTC.
+ * @link /api/board/{boardID}/analytics
+ */
+export const analyticsRouter = router({
+  /**
+   * Procedure for getting the lead and cycle time of the tasks completed within a date range, along with
+   * percentiles of the time tasks spent in each stage. Lead time runs from creation to completion and cycle
+   * time from the first move out of the creation stage to completion.
+   * @link /api/board/{boardID}/analytics/cycle-time
+   * @method GET
+   * @example
+   * ```ts
+   * const { tasks, leadTime, cycleTime, stages } = await trpc.query("analytics.cycleTime", {
+   *  input: {
+   *    boardID: "uuid",
+   *    from: "2024-01-01T00:00:00.000Z",
+   *    to: "2024-04-01T00:00:00.000Z"
+   *  }
+   * })
+   * ```
+   * @returns {Object} Completed tasks with their times and percentiles per stage
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 412 - Precondition Failed
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  cycleTime: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/analytics/cycle-time",
+        tags: ["analytics"],
+        summary: "Get the lead and cycle times of a board",
+      },
+    })
+    .input(rangeInput)
+    .output(
+      z.object({
+        tasks: z.array(z.object({
+          externalID: z.string().uuid(),
+          title: z.string(),
+          createdAt: z.date(),
+          startedAt: z.date(),
+          completedAt: z.date(),
+          leadTime: z.number(),
+          cycleTime: z.number(),
+        })),
+        leadTime: durationStatsSchema,
+        cycleTime: durationStatsSchema,
+        stages: z.array(durationStatsSchema.extend({
+          externalID: z.string().uuid(),
+          title: z.string(),
+        })),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const board = await getAccessibleBoard(ctx, input.boardID);
+        const doneStageID = getDoneStageID(board);
+        const { from, to } = getDateRange(input);
+        const [tasks, stages] = await Promise.all([
+          getMovedTasks(ctx, input.boardID, from, to),
+          getBoardStages(ctx, input.boardID),
+        ]);
+        const timelines = tasks.map(taskTimeline);
+        const completed = tasks.flatMap((task, index) => {
+          // Tasks completed within the range count even if they moved on after it
+          const timeline = timelineUntil(timelines[index], to);
+          const completion = completedAt(timeline, doneStageID);
+          if (!completion || completion < from) {
+            return [];
+          }
+          const start = startedAt(timeline);
+          return [{
+            externalID: task.externalID,
+            title: task.title,
+            createdAt: task.createdAt,
+            startedAt: start,
+            completedAt: completion,
+            leadTime: toHours(completion.getTime() - task.createdAt.getTime()),
+            cycleTime: toHours(completion.getTime() - start.getTime()),
+          }];
+        }).sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+        const durations = stageDurations(timelines, from, to);
+
+        return {
+          tasks: completed,
+          leadTime: durationStats(completed.map((task) => task.leadTime)),
+          cycleTime: durationStats(completed.map((task) => task.cycleTime)),
+          stages: stages.map((stage) => ({
+            externalID: stage.externalID,
+            title: stage.title,
+            ...durationStats(durations.get(stage.externalID) ?? []),
+          })),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the number of tasks completed in each week of a date range, weeks start on Monday
+   * @link /api/board/{boardID}/analytics/throughput
+   * @method GET
+   * @example
+   * ```ts
+   * const { weeks } = await trpc.query("analytics.throughput", {
+   *  input: {
+   *    boardID: "uuid",
+   *    from: "2024-01-01T00:00:00.000Z",
+   *    to: "2024-04-01T00:00:00.000Z"
+   *  }
+   * })
+   * ```
+   * @returns {Object[]} Completed task count per week
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 412 - Precondition Failed
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  throughput: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/analytics/throughput",
+        tags: ["analytics"],
+        summary: "Get the weekly throughput of a board",
+      },
+    })
+    .input(rangeInput)
+    .output(
+      z.object({
+        weeks: z.array(z.object({
+          weekStart: z.date(),
+          count: z.number(),
+        })),
+        total: z.number(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const board = await getAccessibleBoard(ctx, input.boardID);
+        const doneStageID = getDoneStageID(board);
+        const { from, to } = getDateRange(input);
+        const tasks = await getMovedTasks(ctx, input.boardID, from, to);
+        const completions = tasks.flatMap((task) =>
+          completedAt(timelineUntil(taskTimeline(task), to), doneStageID) ?? []);
+        const weeks = weeklyThroughput(completions, from, to);
+
+        return {
+          weeks,
+          total: weeks.reduce((total, week) => total + week.count, 0),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the data of a cumulative flow diagram: the number of tasks in each stage at the end
+   * of every day of a date range. Tasks deleted since still count on the days before their deletion.
+   * @link /api/board/{boardID}/analytics/cumulative-flow
+   * @method GET
+   * @example
+   * ```ts
+   * const { stages, days } = await trpc.query("analytics.cumulativeFlow", {
+   *  input: {
+   *    boardID: "uuid",
+   *    from: "2024-01-01T00:00:00.000Z",
+   *    to: "2024-04-01T00:00:00.000Z"
+   *  }
+   * })
+   * ```
+   * @returns {Object[]} Task count per stage per day
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  cumulativeFlow: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/analytics/cumulative-flow",
+        tags: ["analytics"],
+        summary: "Get the cumulative flow of a board",
+      },
+    })
+    .input(rangeInput)
+    .output(
+      z.object({
+        stages: z.array(z.object({
+          externalID: z.string().uuid(),
+          title: z.string(),
+        })),
+        days: z.array(z.object({
+          date: z.date(),
+          stages: z.array(z.object({
+            stageExternalID: z.string().uuid(),
+            count: z.number(),
+          })),
+        })),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID);
+        const { from, to } = getDateRange(input);
+        const [tasks, unmoved, stages] = await Promise.all([
+          getFlowTasks(ctx, input.boardID, from, to),
+          getUnmovedCounts(ctx, input.boardID, from, to),
+          getBoardStages(ctx, input.boardID),
+        ]);
+
+        return {
+          stages,
+          days: cumulativeFlow(tasks.map(taskTimeline), stages.map((stage) => stage.externalID), from, to, unmoved),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -1,10 +1,42 @@
 import z from "zod";
 import bcrypt from "bcrypt";
 import { TRPCError } from "@trpc/server";
-import jwt from "jsonwebtoken";
+import { PrismaClient, User, UserTokenType } from "@prisma/client";
 
-import { publicProcedure, router } from "../trpc";
+import { protectedProcedure, publicProcedure, rateLimit, router, sessionProcedure } from "../trpc";
 import { env } from "../env";
+import { revokeAccessTokens } from "../utils/accessToken";
+import { assertNotLocked, clearFailedLogins, recordFailedLogin } from "../utils/lockout";
+import { mailer } from "../utils/mail";
+import { createSession, hashToken, revokeSessions } from "../utils/session";
+import { consumeUserToken, issueUserToken } from "../utils/userToken";
+
+const sendVerificationMail = async (prisma: PrismaClient, user: User) => {
+  const token = await issueUserToken(prisma, user.externalID, UserTokenType.EMAIL_VERIFICATION);
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your Kanbex email",
+    text: `Hi ${user.name},\n\nConfirm your email address by opening ${env.APP_URL}/verify-email?token=${token}\n\nThis link expires in 24 hours.`,
+  });
+};
+
+const sendPasswordResetMail = async (prisma: PrismaClient, user: User) => {
+  const token = await issueUserToken(prisma, user.externalID, UserTokenType.PASSWORD_RESET);
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your Kanbex password",
+    text: `Hi ${user.name},\n\nReset your password by opening ${env.APP_URL}/reset-password?token=${token}\n\nThis link expires in 1 hour. If you did not request a reset, you can ignore this email.`,
+  });
+};
+
+/**
+ * Public procedure limited per client IP, so credentials and tokens cannot be guessed at full speed
+ */
+const limitedProcedure = publicProcedure.use(rateLimit({
+  by: "ip",
+  max: env.RATE_LIMIT_IP_MAX,
+  windowSeconds: env.RATE_LIMIT_WINDOW_SECONDS,
+}));
 
 /**
  * Router for authentication procedures
@@ -27,8 +59,9 @@ export const authRouter = router({
    * ```
    * @returns {User} Partial User
    * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 429 - Too Many Requests
    */
-  register: publicProcedure
+  register: limitedProcedure
     .meta({
       openapi: {
         method: "POST",
@@ -72,6 +105,7 @@ export const authRouter = router({
             password: hashedPassword,
           }
         });
+        await sendVerificationMail(ctx.prisma, user).catch(console.error);
         return {
           user: {
             externalID: user.externalID,
@@ -81,6 +115,7 @@ export const authRouter = router({
           }
         }
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error(error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -101,10 +136,11 @@ export const authRouter = router({
    *  }
    * })
    * ```
-   * @returns {string} JWT Token
+   * @returns {string} Short-lived JWT access token and a refresh token
    * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 429 - Too Many Requests
    */
-  login: publicProcedure
+  login: limitedProcedure
     .meta({
       openapi: {
         method: "POST",
@@ -119,6 +155,7 @@ export const authRouter = router({
     }))
     .output(z.object({
       token: z.string(),
+      refreshToken: z.string(),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
@@ -127,29 +164,401 @@ export const authRouter = router({
             username: input.username,
           }
         });
-        if (!user) {
+        if (!user || user.deleted) {
           throw new TRPCError({
             code: "BAD_REQUEST",
             message: "Invalid credentials",
           });
         }
+        assertNotLocked(user);
         const validPassword = await bcrypt.compare(input.password, user.password);
         if (!validPassword) {
+          await recordFailedLogin(ctx.prisma, user);
           throw new TRPCError({
             code: "BAD_REQUEST",
             message: "Invalid credentials",
           });
         }
-        const token = jwt.sign({
-          externalID: user.externalID,
-        }, env.JWT_SECRET, {
-          expiresIn: "1d",
-          algorithm: "HS256",
+        if (user.failedLogins > 0) {
+          await clearFailedLogins(ctx.prisma, user.externalID);
+        }
+        return await createSession(ctx.prisma, user.externalID);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
         });
+      }
+    }
+  ),
 
-        return {
-          token: token,
+  /**
+   * Procedure for exchanging a refresh token for a new token pair. Refresh tokens are single-use:
+   * the presented one is revoked, and presenting an already revoked one revokes every session of its user.
+   * @link /api/auth/refresh
+   * @example
+   * ```ts
+   * const { token, refreshToken } = await trpc.mutation("auth.refresh", {
+   *  input: {
+   *    refreshToken: "token"
+   *  }
+   * })
+   * ```
+   * @returns {string} Short-lived JWT access token and a refresh token
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 429 - Too Many Requests
+   */
+  refresh: limitedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/refresh",
+        tags: ["auth"],
+        summary: "Refresh an access token",
+      }
+    })
+    .input(z.object({
+      refreshToken: z.string(),
+    }))
+    .output(z.object({
+      token: z.string(),
+      refreshToken: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const session = await ctx.prisma.session.findUnique({
+          where: {
+            refreshTokenHash: hashToken(input.refreshToken),
+          },
+          include: {
+            user: true,
+          },
+        });
+        if (!session) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid refresh token",
+          });
+        }
+        if (session.revoked) {
+          // A rotated token being replayed means it leaked, so end every session of its user
+          await revokeSessions(ctx.prisma, session.userExternalID);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid refresh token",
+          });
+        }
+        if (session.expiresAt <= new Date() || session.user.deleted) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid refresh token",
+          });
+        }
+        // Guarded on `revoked` so two concurrent requests cannot both rotate the token, the one losing the race
+        // is a replay like any other
+        const { count } = await ctx.prisma.session.updateMany({
+          where: {
+            externalID: session.externalID,
+            revoked: false,
+          },
+          data: {
+            revoked: true,
+          },
+        });
+        if (count === 0) {
+          await revokeSessions(ctx.prisma, session.userExternalID);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid refresh token",
+          });
+        }
+        return await createSession(ctx.prisma, session.userExternalID);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
+        });
+      }
+    }
+  ),
+
+  /**
+   * Procedure for requesting a password reset mail. Always succeeds so it cannot be used to find registered emails.
+   * @link /api/auth/password/reset
+   * @example
+   * ```ts
+   * await trpc.mutation("auth.requestPasswordReset", {
+   *  input: {
+   *    email: "testing@g.com"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 429 - Too Many Requests
+   */
+  requestPasswordReset: limitedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/password/reset",
+        tags: ["auth"],
+        summary: "Request a password reset",
+      }
+    })
+    .input(z.object({
+      email: z.string().email(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const user = await ctx.prisma.user.findFirst({
+          where: {
+            email: input.email,
+            deleted: false,
+          }
+        });
+        if (user) {
+          await sendPasswordResetMail(ctx.prisma, user);
+        }
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
+        });
+      }
+    }
+  ),
+
+  /**
+   * Procedure for setting a new password with a password reset token, signing out every session and revoking
+   * every personal access token
+   * @link /api/auth/password/reset/confirm
+   * @example
+   * ```ts
+   * await trpc.mutation("auth.confirmPasswordReset", {
+   *  input: {
+   *    token: "token",
+   *    password: "new-password"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 429 - Too Many Requests
+   */
+  confirmPasswordReset: limitedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/password/reset/confirm",
+        tags: ["auth"],
+        summary: "Confirm a password reset",
+      }
+    })
+    .input(z.object({
+      token: z.string(),
+      password: z.string().min(8),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const userID = await consumeUserToken(ctx.prisma, input.token, UserTokenType.PASSWORD_RESET);
+        const hashedPassword = await bcrypt.hash(input.password, 10);
+        await ctx.prisma.user.update({
+          where: {
+            externalID: userID,
+          },
+          data: {
+            password: hashedPassword,
+            failedLogins: 0,
+            lockedUntil: null,
+          }
+        });
+        await revokeSessions(ctx.prisma, userID);
+        await revokeAccessTokens(ctx.prisma, userID);
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
+        });
+      }
+    }
+  ),
+
+  /**
+   * Procedure for sending a new verification mail to the current user
+   * @link /api/auth/email/verify/request
+   * @example
+   * ```ts
+   * await trpc.mutation("auth.requestEmailVerification", {})
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   */
+  requestEmailVerification: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/email/verify/request",
+        tags: ["auth"],
+        summary: "Request an email verification mail",
+      }
+    })
+    .input(z.object({}))
+    .output(z.object({}))
+    .mutation(async ({ ctx }) => {
+      try {
+        if (ctx.user.emailVerifiedAt) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Email is already verified",
+          });
         }
+        await sendVerificationMail(ctx.prisma, ctx.user);
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
+        });
+      }
+    }
+  ),
+
+  /**
+   * Procedure for verifying an email with an email verification token
+   * @link /api/auth/email/verify
+   * @example
+   * ```ts
+   * await trpc.mutation("auth.verifyEmail", {
+   *  input: {
+   *    token: "token"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 429 - Too Many Requests
+   */
+  verifyEmail: limitedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/email/verify",
+        tags: ["auth"],
+        summary: "Verify an email",
+      }
+    })
+    .input(z.object({
+      token: z.string(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const userID = await consumeUserToken(ctx.prisma, input.token, UserTokenType.EMAIL_VERIFICATION);
+        await ctx.prisma.user.update({
+          where: {
+            externalID: userID,
+          },
+          data: {
+            emailVerifiedAt: new Date(),
+          }
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
+        });
+      }
+    }
+  ),
+
+  /**
+   * Procedure for logging out the current session
+   * @link /api/auth/logout
+   * @example
+   * ```ts
+   * await trpc.mutation("auth.logout", {})
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   */
+  logout: sessionProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/logout",
+        tags: ["auth"],
+        summary: "Logout the current session",
+      }
+    })
+    .input(z.object({}))
+    .output(z.object({}))
+    .mutation(async ({ ctx }) => {
+      try {
+        await ctx.prisma.session.update({
+          where: {
+            externalID: ctx.session.externalID,
+          },
+          data: {
+            revoked: true,
+          },
+        });
+        return {};
+      } catch (error) {
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong"
+        });
+      }
+    }
+  ),
+
+  /**
+   * Procedure for logging out every session of the current user
+   * @link /api/auth/logout/all
+   * @example
+   * ```ts
+   * await trpc.mutation("auth.logoutAll", {})
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   */
+  logoutAll: sessionProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/auth/logout/all",
+        tags: ["auth"],
+        summary: "Logout every session",
+      }
+    })
+    .input(z.object({}))
+    .output(z.object({}))
+    .mutation(async ({ ctx }) => {
+      try {
+        await revokeSessions(ctx.prisma, ctx.user.externalID);
+        return {};
       } catch (error) {
         console.error(error);
         throw new TRPCError({
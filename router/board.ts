@@ -1,6 +1,19 @@
 import z from "zod";
 import { protectedProcedure, router } from "../trpc";
 import { TRPCError } from "@trpc/server";
+import { observable } from "@trpc/server/observable";
+import { ActivityAction, ActivityEntity, BoardRole, Prisma } from "@prisma/client";
+import { getAccessibleBoard, getAccessibleStage, isBoardMember } from "../utils/access";
+import { activitySchema, formatActivity, recordActivity } from "../utils/activity";
+import { BoardEvent, subscribeBoardEvents } from "../utils/events";
+import { assigneeSchema, formatTaskAssignees, taskAssigneeInclude } from "../utils/assignee";
+import { checklistProgressInclude, checklistProgressSchema, formatChecklistProgress } from "../utils/checklist";
+import { blockerInclude, formatBlocked } from "../utils/dependency";
+import { exportInclude, kanbexDocumentSchema, toKanbexDocument, toTaskCsv } from "../utils/export";
+import { fromTrello, importBoard, IMPORT_TRANSACTION_OPTIONS, trelloExportSchema } from "../utils/import";
+import { shiftDueDates, withoutTasks } from "../utils/template";
+import { formatTaskLabels, labelFilter, labelIDsSchema, labelSchema, taskLabelInclude } from "../utils/label";
+import { assertVersion, expectedVersionSchema, versionConflict, versionFilter } from "../utils/version";
 
 /**
  * Router handling all board related procedures
@@ -13,9 +26,16 @@ export const boardRouter = router({
    * @method GET
    * @example
    * ```ts
-   * const { boards } = await trpc.query("board.list", {})
+   * const { boards, nextCursor, total } = await trpc.query("board.list", {
+   *  input: {
+   *    sortBy: "title",
+   *    order: "asc",
+   *    limit: 10,
+   *    cursor: "uuid" // nextCursor of the previous page
+   *  }
+   * })
    * ```
-   * @returns {Board[]} List of boards
+   * @returns {Board[]} Page of boards with the cursor of the next page and the total count
    * @throws {TRPCError} 401 - Unauthorized
    * @throws {TRPCError} 500 - Internal Server Error
    */
@@ -29,8 +49,10 @@ export const boardRouter = router({
       },
     })
     .input(z.object({
-      limit: z.number().default(10),
-      offset: z.number().default(0),
+      sortBy: z.enum(["createdAt", "updatedAt", "title"]).default("createdAt"),
+      order: z.enum(["asc", "desc"]).default("desc"),
+      limit: z.number().min(1).max(100).default(10),
+      cursor: z.string().uuid().optional(),
     }))
     .output(
       z.object({
@@ -39,34 +61,66 @@ export const boardRouter = router({
             externalID: z.string().uuid(),
             title: z.string(),
             description: z.string(),
+            version: z.number().int(),
             createdBy: z.object({
               externalID: z.string().uuid(),
               username: z.string(),
             }),
+            role: z.nativeEnum(BoardRole),
+            createdAt: z.date(),
+            updatedAt: z.date(),
           })
         ),
+        nextCursor: z.string().uuid().nullable(),
+        total: z.number(),
       })
     )
     .query(async ({ input, ctx }) => {
       try {
-        const boards = await ctx.prisma.board.findMany({
-          where: {
-            deleted: false,
-            createdBy: {
-              externalID: ctx.user.externalID,
+        const where: Prisma.BoardWhereInput = {
+          deleted: false,
+          BoardMember: {
+            some: {
+              userExternalID: ctx.user.externalID,
             },
           },
-          include: {
-            createdBy: true,
-          },
-          take: input.limit,
-          skip: input.offset,
-        });
+        };
+        const [boards, total] = await ctx.prisma.$transaction([
+          ctx.prisma.board.findMany({
+            where,
+            include: {
+              createdBy: true,
+              BoardMember: {
+                where: {
+                  userExternalID: ctx.user.externalID,
+                },
+              },
+            },
+            orderBy: [
+              { [input.sortBy]: input.order },
+              { externalID: input.order },
+            ],
+            cursor: input.cursor ? { externalID: input.cursor } : undefined,
+            skip: input.cursor ? 1 : 0,
+            // One extra row tells whether there is a next page
+            take: input.limit + 1,
+          }),
+          ctx.prisma.board.count({
+            where,
+          }),
+        ]);
+        const page = boards.slice(0, input.limit);
 
         return {
-          boards,
+          boards: page.map((board) => ({
+            ...board,
+            role: board.BoardMember[0].role,
+          })),
+          nextCursor: boards.length > input.limit ? page[page.length - 1].externalID : null,
+          total,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error(error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -83,7 +137,8 @@ export const boardRouter = router({
    * ```ts
    * const { board } = await trpc.query("board.get", {
    *  input: {
-   *    externalID: "uuid"
+   *    externalID: "uuid",
+   *    labelIDs: ["uuid"] // optional, only tasks carrying one of these labels
    *  }
    * })
    * ```
@@ -103,6 +158,7 @@ export const boardRouter = router({
     })
     .input(z.object({
       externalID: z.string().uuid(),
+      labelIDs: labelIDsSchema.optional(),
     }))
     .output(
       z.object({
@@ -110,6 +166,8 @@ export const boardRouter = router({
           externalID: z.string().uuid(),
           title: z.string(),
           description: z.string(),
+          version: z.number().int(),
+          doneStageExternalID: z.string().uuid().nullable(),
           createdBy: z.object({
             externalID: z.string().uuid(),
             username: z.string(),
@@ -119,8 +177,28 @@ export const boardRouter = router({
               externalID: z.string().uuid(),
               title: z.string(),
               description: z.string(),
+              version: z.number().int(),
+              rank: z.string(),
+              wipLimit: z.number().int().nullable(),
+              tasks: z.array(
+                z.object({
+                  externalID: z.string().uuid(),
+                  title: z.string(),
+                  description: z.string(),
+                  version: z.number().int(),
+                  priority: z.number().int(),
+                  rank: z.string(),
+                  dueDate: z.date(),
+                  labels: z.array(labelSchema),
+                  assignees: z.array(assigneeSchema),
+                  checklist: checklistProgressSchema,
+                  isBlocked: z.boolean(),
+                })
+              ),
             })
           ),
+          labels: z.array(labelSchema),
+          role: z.nativeEnum(BoardRole),
           createdAt: z.date(),
           updatedAt: z.date(),
         }),
@@ -128,34 +206,64 @@ export const boardRouter = router({
     )
     .query(async ({ ctx, input }) => {
       try {
-        const board = await ctx.prisma.board.findFirst({
+        const { role } = await getAccessibleBoard(ctx, input.externalID);
+        const board = await ctx.prisma.board.findUniqueOrThrow({
           where: {
             externalID: input.externalID,
-            deleted: false,
-            createdBy: {
-              externalID: ctx.user.externalID,
-            },
           },
           include: {
             createdBy: true,
-            Stage: true,
+            Stage: {
+              where: {
+                deleted: false,
+              },
+              include: {
+                Task: {
+                  where: {
+                    deleted: false,
+                    ...labelFilter(input.labelIDs),
+                  },
+                  include: {
+                    ...taskLabelInclude,
+                    ...taskAssigneeInclude,
+                    ...checklistProgressInclude,
+                    ...blockerInclude,
+                  },
+                  orderBy: [
+                    { rank: "asc" },
+                    { createdAt: "asc" },
+                  ],
+                },
+              },
+              orderBy: [
+                { rank: "asc" },
+                { createdAt: "asc" },
+              ],
+            },
+            Label: {
+              orderBy: {
+                name: "asc",
+              },
+            },
           },
         });
 
-        if (!board) {
-          throw new TRPCError({
-            code: "NOT_FOUND",
-            message: "Board not found",
-          });
-        }
-
         return {
           board: {
             ...board,
-            stage: board.Stage,
+            role,
+            stage: board.Stage.map((stage) => ({
+              ...stage,
+              tasks: stage.Task.map((task) => formatBlocked(
+                formatChecklistProgress(formatTaskAssignees(formatTaskLabels(task))),
+                board.doneStageExternalID,
+              )),
+            })),
+            labels: board.Label,
           },
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error(error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -201,6 +309,7 @@ export const boardRouter = router({
           externalID: z.string().uuid(),
           title: z.string(),
           description: z.string(),
+          version: z.number().int(),
           createdBy: z.object({
             externalID: z.string().uuid(),
             username: z.string(),
@@ -210,7 +319,7 @@ export const boardRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        await ctx.prisma.board.findFirstOrThrow({
+        const existingBoard = await ctx.prisma.board.findFirst({
           where: {
             title: input.title,
             deleted: false,
@@ -219,6 +328,12 @@ export const boardRouter = router({
             },
           },
         });
+        if (existingBoard) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Board already exists",
+          });
+        }
         const board = await ctx.prisma.board.create({
           data: {
             title: input.title,
@@ -228,16 +343,35 @@ export const boardRouter = router({
                 externalID: ctx.user.externalID,
               },
             },
+            BoardMember: {
+              create: {
+                role: BoardRole.OWNER,
+                user: {
+                  connect: {
+                    externalID: ctx.user.externalID,
+                  },
+                },
+              },
+            },
           },
           include: {
             createdBy: true,
           },
         });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.CREATE,
+          after: board,
+        });
 
         return {
           board,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error(error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -256,12 +390,17 @@ export const boardRouter = router({
    *  input: {
    *    externalID: "uuid",
    *    title: "Board Title",
-   *    description: "Board Description"
+   *    description: "Board Description",
+   *    doneStageID: "uuid", // tasks in this stage no longer block others, null to unset
+   *    version: 3 // optional, rejects the update if the board changed since this version was read
    *   }
    * })
    * ```
    * @returns {Board} Board
    * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
    * @throws {TRPCError} 500 - Internal Server Error 
    */
   update: protectedProcedure
@@ -277,6 +416,8 @@ export const boardRouter = router({
       externalID: z.string().uuid(),
       title: z.string().optional(),
       description: z.string().optional(),
+      doneStageID: z.string().uuid().nullable().optional(),
+      version: expectedVersionSchema,
     }))
     .output(
       z.object({
@@ -284,6 +425,8 @@ export const boardRouter = router({
           externalID: z.string().uuid(),
           title: z.string(),
           description: z.string(),
+          version: z.number().int(),
+          doneStageExternalID: z.string().uuid().nullable(),
           createdBy: z.object({
             externalID: z.string().uuid(),
             username: z.string(),
@@ -293,32 +436,51 @@ export const boardRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        await ctx.prisma.board.findFirstOrThrow({
+        const before = await getAccessibleBoard(ctx, input.externalID, BoardRole.EDITOR);
+        assertVersion(before, input.version);
+        if (input.doneStageID) {
+          await getAccessibleStage(ctx, input.externalID, input.doneStageID);
+        }
+        const { count } = await ctx.prisma.board.updateMany({
           where: {
             externalID: input.externalID,
-            deleted: false,
-            createdBy: {
-              externalID: ctx.user.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            title: input.title,
+            description: input.description,
+            doneStageExternalID: input.doneStageID,
+            version: {
+              increment: 1,
             },
           },
         });
-        const board = await ctx.prisma.board.update({
+        const board = await ctx.prisma.board.findUniqueOrThrow({
           where: {
             externalID: input.externalID,
           },
-          data: {
-            title: input.title,
-            description: input.description,
-          },
           include: {
             createdBy: true,
           },
         });
+        if (count === 0) {
+          throw versionConflict(board);
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: board,
+        });
 
         return {
           board,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error(error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -336,11 +498,15 @@ export const boardRouter = router({
    * const { board } = await trpc.mutation("board.delete", {
    *  input: {
    *    externalID: "uuid",
+   *    version: 3 // optional, rejects the deletion if the board changed since this version was read
    *  }
    * })
    * ```
    * @returns 200 - OK
    * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
    * @throws {TRPCError} 500 - Internal Server Error
    */
   delete: protectedProcedure
@@ -354,36 +520,519 @@ export const boardRouter = router({
     })
     .input(z.object({
       externalID: z.string().uuid(),
+      version: expectedVersionSchema,
     }))
     .output(z.object({}))
     .mutation(async ({ ctx, input }) => {
       try {
-         await ctx.prisma.board.findFirstOrThrow({
+        const board = await getAccessibleBoard(ctx, input.externalID, BoardRole.OWNER);
+        assertVersion(board, input.version);
+        const { count } = await ctx.prisma.board.updateMany({
           where: {
             externalID: input.externalID,
-            deleted: false,
-            createdBy: {
-              externalID: ctx.user.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            deleted: true,
+            deletedAt: new Date(),
+            version: {
+              increment: 1,
             },
           },
         });
-        await ctx.prisma.board.update({
+        if (count === 0) {
+          throw versionConflict(await ctx.prisma.board.findUniqueOrThrow({
+            where: {
+              externalID: input.externalID,
+            },
+          }));
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.DELETE,
+          before: board,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error as string,
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for restoring a deleted board from the trash, its stages and tasks come back with it
+   * @link /api/board/{externalID}/restore
+   * @method POST
+   * @example
+   * ```ts
+   * await trpc.mutation("board.restore", {
+   *  input: {
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  restore: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{externalID}/restore",
+        tags: ["board"],
+        summary: "Restore a deleted board",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const membership = await ctx.prisma.boardMember.findFirst({
+          where: {
+            boardExternalID: input.externalID,
+            userExternalID: ctx.user.externalID,
+            board: {
+              deleted: true,
+            },
+          },
+        });
+        if (!membership) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Board not found",
+          });
+        }
+        if (membership.role !== BoardRole.OWNER) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: `Requires ${BoardRole.OWNER} role on this board`,
+          });
+        }
+        // Stages and tasks are not flagged when their board is deleted, so only the ones
+        // deleted on their own before the board stay in the trash
+        const board = await ctx.prisma.board.update({
           where: {
             externalID: input.externalID,
           },
           data: {
-            deleted: true,
+            deleted: false,
+            deletedAt: null,
+            version: {
+              increment: 1,
+            },
           },
         });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.RESTORE,
+          after: board,
+        });
         return {};
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error(error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: error as string,
+          message: "Something went wrong",
         });
       }
     }
   ),
+  /**
+   * Procedure for exporting a board, either as a versioned Kanbex JSON document with its labels, stages and
+   * tasks or as a flat CSV of its tasks
+   * @link /api/board/{externalID}/export
+   * @method GET
+   * @example
+   * ```ts
+   * const { filename, contentType, content } = await trpc.query("board.export", {
+   *  input: {
+   *    externalID: "uuid",
+   *    format: "csv"
+   *  }
+   * })
+   * ```
+   * @returns {string} Serialized board along with a suggested file name and content type
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  export: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{externalID}/export",
+        tags: ["board"],
+        summary: "Export a board",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+      format: z.enum(["json", "csv"]).default("json"),
+    }))
+    .output(
+      z.object({
+        filename: z.string(),
+        contentType: z.string(),
+        content: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.externalID);
+        const board = await ctx.prisma.board.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: exportInclude,
+        });
 
+        if (input.format === "csv") {
+          return {
+            filename: `board-${board.externalID}.csv`,
+            contentType: "text/csv",
+            content: toTaskCsv(board),
+          };
+        }
+        return {
+          filename: `board-${board.externalID}.json`,
+          contentType: "application/json",
+          content: JSON.stringify(toKanbexDocument(board), null, 2),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a board from a Kanbex JSON export or a Trello board export, Trello lists
+   * become stages and cards become tasks. Nothing is created when any part of the import fails.
+   * @link /api/board/import
+   * @method POST
+   * @example
+   * ```ts
+   * const { board } = await trpc.mutation("board.import", {
+   *  input: {
+   *    format: "trello",
+   *    content: "{\"name\": \"Roadmap\", \"lists\": [], \"cards\": []}",
+   *    title: "Imported Roadmap" // optional, defaults to the title in the file
+   *  }
+   * })
+   * ```
+   * @returns {Board} Board
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  import: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/import",
+        tags: ["board"],
+        summary: "Import a board",
+      },
+    })
+    .input(z.object({
+      format: z.enum(["kanbex", "trello"]),
+      content: z.string().min(1),
+      title: z.string().min(1).optional(),
+    }))
+    .output(
+      z.object({
+        board: z.object({
+          externalID: z.string().uuid(),
+          title: z.string(),
+          description: z.string(),
+          version: z.number().int(),
+          createdBy: z.object({
+            externalID: z.string().uuid(),
+            username: z.string(),
+          }),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        let data: unknown;
+        try {
+          data = JSON.parse(input.content);
+        } catch {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Import file is not valid JSON",
+          });
+        }
+        const parsed = input.format === "trello"
+          ? trelloExportSchema.safeParse(data)
+          : kanbexDocumentSchema.safeParse(data);
+        if (!parsed.success) {
+          const [issue] = parsed.error.issues;
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Import file does not match the expected format: ${issue.message} at "${issue.path.join(".")}"`,
+            cause: parsed.error,
+          });
+        }
+        const document = "format" in parsed.data ? parsed.data : fromTrello(parsed.data);
+        if (input.title) {
+          document.board.title = input.title;
+        }
+        const board = await ctx.prisma.$transaction(
+          (tx) => importBoard(tx, ctx.user.externalID, document),
+          IMPORT_TRANSACTION_OPTIONS,
+        );
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.CREATE,
+          after: board,
+        });
+
+        return {
+          board,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for copying a board with its stages and labels into a new board owned by the current user.
+   * Tasks are only copied when asked for, with their due dates shifted so the earliest one falls on `startDate`.
+   * @link /api/board/{externalID}/clone
+   * @method POST
+   * @example
+   * ```ts
+   * const { board } = await trpc.mutation("board.clone", {
+   *  input: {
+   *    externalID: "uuid",
+   *    title: "Sprint 12",
+   *    includeTasks: true,
+   *    startDate: new Date() // optional, keeps the original due dates when omitted
+   *  }
+   * })
+   * ```
+   * @returns {Board} Board
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  clone: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{externalID}/clone",
+        tags: ["board"],
+        summary: "Clone a board",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+      title: z.string().min(1),
+      description: z.string().optional(),
+      includeTasks: z.boolean().default(false),
+      startDate: z.coerce.date().optional(),
+    }))
+    .output(
+      z.object({
+        board: z.object({
+          externalID: z.string().uuid(),
+          title: z.string(),
+          description: z.string(),
+          version: z.number().int(),
+          createdBy: z.object({
+            externalID: z.string().uuid(),
+            username: z.string(),
+          }),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.externalID);
+        const source = await ctx.prisma.board.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: exportInclude,
+        });
+        let document = toKanbexDocument(source);
+        document = input.includeTasks ? document : withoutTasks(document);
+        document = input.startDate ? shiftDueDates(document, input.startDate) : document;
+        document.board.title = input.title;
+        document.board.description = input.description ?? document.board.description;
+        const board = await ctx.prisma.$transaction(
+          (tx) => importBoard(tx, ctx.user.externalID, document),
+          IMPORT_TRANSACTION_OPTIONS,
+        );
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.CREATE,
+          after: board,
+        });
+
+        return {
+          board,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the activity log of a board, newest first
+   * @link /api/board/{externalID}/activity
+   * @method GET
+   * @example
+   * ```ts
+   * const { activities } = await trpc.query("board.activity", {
+   *  input: {
+   *    externalID: "uuid",
+   *    limit: 20,
+   *    offset: 0
+   *  }
+   * })
+   * ```
+   * @returns {Activity[]} List of activities
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  activity: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{externalID}/activity",
+        tags: ["board"],
+        summary: "Get the activity log of a board",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    }))
+    .output(
+      z.object({
+        activities: z.array(activitySchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.externalID);
+        const activities = await ctx.prisma.activity.findMany({
+          where: {
+            boardExternalID: input.externalID,
+          },
+          include: {
+            actor: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+          take: input.limit,
+          skip: input.offset,
+        });
+
+        return {
+          activities: activities.map(formatActivity),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Subscription streaming every change made to a board, only available over WebSockets. The stream ends once the
+   * subscriber loses access to the board.
+   * @link ws://localhost:3000/api/trpc?token={accessToken}
+   * @example
+   * ```ts
+   * trpc.board.onChange.subscribe({ externalID: "uuid" }, {
+   *   onData: (event) => console.log(event.type), // e.g. "task.moved"
+   * })
+   * ```
+   * @returns {BoardEvent} Stream of board events
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   */
+  onChange: protectedProcedure
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .subscription(async ({ ctx, input }) => {
+      await getAccessibleBoard(ctx, input.externalID);
+      return observable<BoardEvent>((emit) => {
+        // Events are checked one after the other so they are still emitted in order
+        let pending = Promise.resolve();
+        return subscribeBoardEvents(input.externalID, (event) => {
+          pending = pending.then(async () => {
+            // Stop streaming once the board is gone or the subscriber has been removed from it
+            const removed = event.entity === ActivityEntity.MEMBER
+              && event.action === ActivityAction.DELETE
+              && (event.before as { userExternalID?: string } | null)?.userExternalID === ctx.user.externalID;
+            const deleted = event.entity === ActivityEntity.BOARD && event.action === ActivityAction.DELETE;
+            if (removed || deleted) {
+              emit.next(event);
+              emit.complete();
+              return;
+            }
+            // Access may also have been lost without an event of this board, e.g. by deactivating the subscriber
+            if (!(await isBoardMember(ctx, input.externalID))) {
+              emit.complete();
+              return;
+            }
+            emit.next(event);
+          }).catch((error) => {
+            console.error(error);
+            emit.error(new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: "Something went wrong",
+            }));
+          });
+        });
+      });
+    }
+  ),
 });
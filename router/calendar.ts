@@ -0,0 +1,172 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { getAccessibleBoard } from "../utils/access";
+import { calendarFeedURL, issueCalendarFeed } from "../utils/calendar";
+
+/**
+ * Router handling the iCalendar feeds of the current user, the feeds themselves are served by
+ * `GET /calendar/{token}.ics`
+ * @link /api/calendar
+ */
+export const calendarRouter = router({
+  /**
+   * Procedure for listing the calendar feeds of the current user, feed URLs are only shown when issued
+   * @link /api/calendar/feed
+   * @method GET
+   * @example
+   * ```ts
+   * const { feeds } = await trpc.query("calendar.list", {})
+   * ```
+   * @returns {CalendarFeed[]} Calendar feeds
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/calendar/feed",
+        tags: ["calendar"],
+        summary: "Get the calendar feeds of the current user",
+      },
+    })
+    .input(z.object({}))
+    .output(
+      z.object({
+        feeds: z.array(z.object({
+          externalID: z.string().uuid(),
+          boardExternalID: z.string().uuid().nullable(),
+          createdAt: z.date(),
+        })),
+      })
+    )
+    .query(async ({ ctx }) => {
+      try {
+        const feeds = await ctx.prisma.calendarFeed.findMany({
+          where: {
+            userExternalID: ctx.user.externalID,
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        });
+        return { feeds };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for issuing the calendar feed of a board, or of every board of the current user when no board is
+   * given. Issuing a feed again regenerates its URL and revokes the previous one.
+   * @link /api/calendar/feed
+   * @method POST
+   * @example
+   * ```ts
+   * const { url } = await trpc.mutation("calendar.issue", {
+   *  input: {
+   *    boardID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {string} Secret URL of the feed
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  issue: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/calendar/feed",
+        tags: ["calendar"],
+        summary: "Issue or regenerate a calendar feed",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid().optional(),
+    }))
+    .output(
+      z.object({
+        url: z.string().url(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.boardID) {
+          await getAccessibleBoard(ctx, input.boardID);
+        }
+        const token = await issueCalendarFeed(ctx.prisma, ctx.user.externalID, input.boardID ?? null);
+        return { url: calendarFeedURL(token) };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for revoking a calendar feed of the current user
+   * @link /api/calendar/feed/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("calendar.revoke", {
+   *  input: {
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  revoke: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/calendar/feed/{externalID}",
+        tags: ["calendar"],
+        summary: "Revoke a calendar feed",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { count } = await ctx.prisma.calendarFeed.deleteMany({
+          where: {
+            externalID: input.externalID,
+            userExternalID: ctx.user.externalID,
+          },
+        });
+        if (count === 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Calendar feed not found",
+          });
+        }
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,527 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { AccessContext, getAccessibleTask } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { checklistProgressSchema } from "../utils/checklist";
+import { rankBetween } from "../utils/rank";
+import { bumpTaskVersion } from "../utils/version";
+
+const itemSchema = z.object({
+  externalID: z.string().uuid(),
+  text: z.string(),
+  done: z.boolean(),
+  rank: z.string(),
+  taskExternalID: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Fetches a checklist item of a task
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getItem = async (ctx: AccessContext, taskID: string, itemID: string) => {
+  const item = await ctx.prisma.checklistItem.findFirst({
+    where: {
+      externalID: itemID,
+      taskExternalID: taskID,
+    },
+  });
+  if (!item) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Checklist item not found",
+    });
+  }
+  return item;
+};
+
+/**
+ * Computes the rank placing an item right after `afterID` in the checklist of a task, or first when omitted
+ */
+const placeItem = async (ctx: AccessContext, taskID: string, itemID: string, afterID?: string) => {
+  let before: string | null = null;
+  if (afterID) {
+    if (afterID === itemID) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Checklist item cannot be placed after itself",
+      });
+    }
+    before = (await getItem(ctx, taskID, afterID)).rank;
+  }
+  const next = await ctx.prisma.checklistItem.findFirst({
+    where: {
+      taskExternalID: taskID,
+      externalID: { not: itemID },
+      rank: before !== null ? { gt: before } : undefined,
+    },
+    orderBy: [
+      { rank: "asc" },
+      { createdAt: "asc" },
+    ],
+  });
+  return rankBetween(before, next?.rank ?? null);
+};
+
+/**
+ * Router handling the checklist items of a task
+ * @link /api/board/{boardID}/task/{taskID}/checklist
+ */
+export const checklistRouter = router({
+  /**
+   * Procedure for getting the checklist of a task along with its progress
+   * @link /api/board/{boardID}/task/{taskID}/checklist
+   * @method GET
+   * @example
+   * ```ts
+   * const { items, progress } = await trpc.query("checklist.list", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {ChecklistItem[]} List of checklist items
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/task/{taskID}/checklist",
+        tags: ["checklist"],
+        summary: "Get the checklist of a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        items: z.array(itemSchema),
+        progress: checklistProgressSchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID);
+        const items = await ctx.prisma.checklistItem.findMany({
+          where: {
+            taskExternalID: input.taskID,
+          },
+          orderBy: [
+            { rank: "asc" },
+            { createdAt: "asc" },
+          ],
+        });
+
+        return {
+          items,
+          progress: {
+            done: items.filter((item) => item.done).length,
+            total: items.length,
+          },
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for adding an item at the end of the checklist of a task
+   * @link /api/board/{boardID}/task/{taskID}/checklist
+   * @method POST
+   * @example
+   * ```ts
+   * const { item } = await trpc.mutation("checklist.add", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    text: "Write the migration"
+   *  }
+   * })
+   * ```
+   * @returns {ChecklistItem} Checklist item
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  add: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{taskID}/checklist",
+        tags: ["checklist"],
+        summary: "Add a checklist item",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      text: z.string().min(1),
+    }))
+    .output(
+      z.object({
+        item: itemSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const last = await ctx.prisma.checklistItem.findFirst({
+          where: {
+            taskExternalID: input.taskID,
+          },
+          orderBy: {
+            rank: "desc",
+          },
+        });
+        const item = await ctx.prisma.checklistItem.create({
+          data: {
+            text: input.text,
+            rank: rankBetween(last?.rank ?? null, null),
+            task: {
+              connect: {
+                externalID: input.taskID,
+              },
+            },
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.CHECKLIST_ITEM,
+          entityID: item.externalID,
+          action: ActivityAction.CREATE,
+          after: item,
+        });
+
+        return {
+          item,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for editing the text of a checklist item
+   * @link /api/board/{boardID}/task/{taskID}/checklist/{externalID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { item } = await trpc.mutation("checklist.update", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid",
+   *    text: "Write and run the migration"
+   *  }
+   * })
+   * ```
+   * @returns {ChecklistItem} Checklist item
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  update: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/task/{taskID}/checklist/{externalID}",
+        tags: ["checklist"],
+        summary: "Update a checklist item",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      text: z.string().min(1),
+    }))
+    .output(
+      z.object({
+        item: itemSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const before = await getItem(ctx, input.taskID, input.externalID);
+        const item = await ctx.prisma.checklistItem.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            text: input.text,
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.CHECKLIST_ITEM,
+          entityID: item.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: item,
+        });
+
+        return {
+          item,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for checking or unchecking a checklist item, flips the current state when `done` is omitted
+   * @link /api/board/{boardID}/task/{taskID}/checklist/{externalID}/toggle
+   * @method POST
+   * @example
+   * ```ts
+   * const { item } = await trpc.mutation("checklist.toggle", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid",
+   *    done: true
+   *  }
+   * })
+   * ```
+   * @returns {ChecklistItem} Checklist item
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  toggle: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{taskID}/checklist/{externalID}/toggle",
+        tags: ["checklist"],
+        summary: "Toggle a checklist item",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      done: z.boolean().optional(),
+    }))
+    .output(
+      z.object({
+        item: itemSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const before = await getItem(ctx, input.taskID, input.externalID);
+        const done = input.done ?? !before.done;
+        if (done === before.done) {
+          return {
+            item: before,
+          };
+        }
+        const item = await ctx.prisma.checklistItem.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            done,
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.CHECKLIST_ITEM,
+          entityID: item.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: item,
+        });
+
+        return {
+          item,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for reordering an item within the checklist of its task
+   * @link /api/board/{boardID}/task/{taskID}/checklist/{externalID}/reorder
+   * @method POST
+   * @example
+   * ```ts
+   * const { item } = await trpc.mutation("checklist.reorder", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid",
+   *    afterID: "uuid" // omit to move the item to the top of the checklist
+   *  }
+   * })
+   * ```
+   * @returns {ChecklistItem} Checklist item
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  reorder: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{taskID}/checklist/{externalID}/reorder",
+        tags: ["checklist"],
+        summary: "Reorder a checklist item",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      afterID: z.string().uuid().optional(),
+    }))
+    .output(
+      z.object({
+        item: itemSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const before = await getItem(ctx, input.taskID, input.externalID);
+        const item = await ctx.prisma.checklistItem.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            rank: await placeItem(ctx, input.taskID, input.externalID, input.afterID),
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.CHECKLIST_ITEM,
+          entityID: item.externalID,
+          action: ActivityAction.MOVE,
+          before,
+          after: item,
+        });
+
+        return {
+          item,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a checklist item
+   * @link /api/board/{boardID}/task/{taskID}/checklist/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("checklist.delete", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/task/{taskID}/checklist/{externalID}",
+        tags: ["checklist"],
+        summary: "Delete a checklist item",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const item = await getItem(ctx, input.taskID, input.externalID);
+        await ctx.prisma.checklistItem.delete({
+          where: {
+            externalID: input.externalID,
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.CHECKLIST_ITEM,
+          entityID: item.externalID,
+          action: ActivityAction.DELETE,
+          before: item,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,497 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { AccessContext, getAccessibleBoard, getAccessibleTask } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { resolveMentions } from "../utils/mention";
+
+const userSchema = z.object({
+  externalID: z.string().uuid(),
+  username: z.string(),
+});
+
+const commentSchema = z.object({
+  externalID: z.string().uuid(),
+  body: z.string(),
+  taskExternalID: z.string().uuid(),
+  author: userSchema,
+  mentions: z.array(userSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const commentInclude = {
+  author: true,
+  Mention: {
+    include: {
+      user: true,
+    },
+  },
+} as const;
+
+/**
+ * Flattens the mention join rows of a comment into the mentioned users
+ */
+const formatComment = <T extends { Mention: { user: { externalID: string; username: string } }[] }>(comment: T) => ({
+  ...comment,
+  mentions: comment.Mention.map((mention) => mention.user),
+});
+
+/**
+ * Fetches a comment of a task the current user has access to
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getComment = async (ctx: AccessContext, taskID: string, commentID: string) => {
+  const comment = await ctx.prisma.comment.findFirst({
+    where: {
+      externalID: commentID,
+      taskExternalID: taskID,
+      deleted: false,
+    },
+  });
+  if (!comment) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Comment not found",
+    });
+  }
+  return comment;
+};
+
+/**
+ * Router handling task comment related procedures
+ * @link /api/board/{boardID}/task/{taskID}/comment
+ */
+export const commentRouter = router({
+  /**
+   * Procedure for getting the comments of a task, oldest first
+   * @link /api/board/{boardID}/task/{taskID}/comment
+   * @method GET
+   * @example
+   * ```ts
+   * const { comments, nextCursor } = await trpc.query("comment.list", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    limit: 20,
+   *    cursor: "uuid" // nextCursor of the previous page
+   *  }
+   * })
+   * ```
+   * @returns {Comment[]} Page of comments and the cursor of the next page
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/task/{taskID}/comment",
+        tags: ["comment"],
+        summary: "Get the comments of a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      limit: z.number().min(1).max(100).default(20),
+      cursor: z.string().uuid().optional(),
+    }))
+    .output(
+      z.object({
+        comments: z.array(commentSchema),
+        nextCursor: z.string().uuid().nullable(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID);
+        const comments = await ctx.prisma.comment.findMany({
+          where: {
+            taskExternalID: input.taskID,
+            deleted: false,
+          },
+          include: commentInclude,
+          orderBy: [
+            { createdAt: "asc" },
+            { externalID: "asc" },
+          ],
+          cursor: input.cursor ? { externalID: input.cursor } : undefined,
+          skip: input.cursor ? 1 : 0,
+          // One extra row tells whether there is a next page
+          take: input.limit + 1,
+        });
+        const page = comments.slice(0, input.limit);
+
+        return {
+          comments: page.map(formatComment),
+          nextCursor: comments.length > input.limit ? page[page.length - 1].externalID : null,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for commenting on a task, `@username` mentions of board members are recorded
+   * @link /api/board/{boardID}/task/{taskID}/comment
+   * @method POST
+   * @example
+   * ```ts
+   * const { comment } = await trpc.mutation("comment.create", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    body: "@test can you review this?"
+   *  }
+   * })
+   * ```
+   * @returns {Comment} Comment
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{taskID}/comment",
+        tags: ["comment"],
+        summary: "Comment on a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      body: z.string().trim().min(1),
+    }))
+    .output(
+      z.object({
+        comment: commentSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const mentionedIDs = await resolveMentions(ctx.prisma, input.boardID, input.body);
+        const comment = await ctx.prisma.comment.create({
+          data: {
+            body: input.body,
+            task: {
+              connect: {
+                externalID: input.taskID,
+              },
+            },
+            author: {
+              connect: {
+                externalID: ctx.user.externalID,
+              },
+            },
+            Mention: {
+              create: mentionedIDs.map((userID) => ({
+                user: {
+                  connect: {
+                    externalID: userID,
+                  },
+                },
+              })),
+            },
+          },
+          include: commentInclude,
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.COMMENT,
+          entityID: comment.externalID,
+          action: ActivityAction.CREATE,
+          after: comment,
+        });
+
+        return {
+          comment: formatComment(comment),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for editing a comment, only its author can edit it
+   * @link /api/board/{boardID}/task/{taskID}/comment/{externalID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { comment } = await trpc.mutation("comment.update", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid",
+   *    body: "Updated comment"
+   *  }
+   * })
+   * ```
+   * @returns {Comment} Comment
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  update: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/task/{taskID}/comment/{externalID}",
+        tags: ["comment"],
+        summary: "Edit a comment",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      body: z.string().trim().min(1),
+    }))
+    .output(
+      z.object({
+        comment: commentSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const before = await getComment(ctx, input.taskID, input.externalID);
+        if (before.userExternalID !== ctx.user.externalID) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only the author can edit a comment",
+          });
+        }
+        const mentionedIDs = await resolveMentions(ctx.prisma, input.boardID, input.body);
+        const comment = await ctx.prisma.comment.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            body: input.body,
+            Mention: {
+              deleteMany: {},
+              create: mentionedIDs.map((userID) => ({
+                user: {
+                  connect: {
+                    externalID: userID,
+                  },
+                },
+              })),
+            },
+          },
+          include: commentInclude,
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.COMMENT,
+          entityID: comment.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: comment,
+        });
+
+        return {
+          comment: formatComment(comment),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a comment, allowed for its author and the board owner
+   * @link /api/board/{boardID}/task/{taskID}/comment/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("comment.delete", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/task/{taskID}/comment/{externalID}",
+        tags: ["comment"],
+        summary: "Delete a comment",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { role } = await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        await getAccessibleTask(ctx, input.boardID, input.taskID);
+        const comment = await getComment(ctx, input.taskID, input.externalID);
+        if (comment.userExternalID !== ctx.user.externalID && role !== BoardRole.OWNER) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only the author or the board owner can delete a comment",
+          });
+        }
+        await ctx.prisma.comment.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            deleted: true,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.COMMENT,
+          entityID: comment.externalID,
+          action: ActivityAction.DELETE,
+          before: comment,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the comments mentioning the current user, newest first
+   * @link /api/user/me/mentions
+   * @method GET
+   * @example
+   * ```ts
+   * const { comments, nextCursor } = await trpc.query("comment.mentions", {
+   *  input: {
+   *    limit: 20
+   *  }
+   * })
+   * ```
+   * @returns {Comment[]} Page of comments with their board and the cursor of the next page
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  mentions: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/user/me/mentions",
+        tags: ["comment"],
+        summary: "Get the comments mentioning the current user",
+      },
+    })
+    .input(z.object({
+      limit: z.number().min(1).max(100).default(20),
+      cursor: z.string().uuid().optional(),
+    }))
+    .output(
+      z.object({
+        comments: z.array(commentSchema.extend({
+          boardExternalID: z.string().uuid(),
+        })),
+        nextCursor: z.string().uuid().nullable(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const comments = await ctx.prisma.comment.findMany({
+          where: {
+            deleted: false,
+            Mention: {
+              some: {
+                userExternalID: ctx.user.externalID,
+              },
+            },
+            task: {
+              deleted: false,
+              stage: {
+                deleted: false,
+                board: {
+                  deleted: false,
+                  BoardMember: {
+                    some: {
+                      userExternalID: ctx.user.externalID,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          include: {
+            ...commentInclude,
+            task: {
+              include: {
+                stage: true,
+              },
+            },
+          },
+          orderBy: [
+            { createdAt: "desc" },
+            { externalID: "desc" },
+          ],
+          cursor: input.cursor ? { externalID: input.cursor } : undefined,
+          skip: input.cursor ? 1 : 0,
+          take: input.limit + 1,
+        });
+        const page = comments.slice(0, input.limit);
+
+        return {
+          comments: page.map((comment) => ({
+            ...formatComment(comment),
+            boardExternalID: comment.task.stage.boardExternalID,
+          })),
+          nextCursor: comments.length > input.limit ? page[page.length - 1].externalID : null,
+        };
+      } catch (error) {
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,294 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { AccessContext, getAccessibleBoard, getAccessibleTask } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { createsCycle, isFinished } from "../utils/dependency";
+import { bumpTaskVersion } from "../utils/version";
+
+const dependencyTaskSchema = z.object({
+  externalID: z.string().uuid(),
+  title: z.string(),
+  stageExternalID: z.string().uuid(),
+  finished: z.boolean(),
+});
+
+/**
+ * Only live tasks in live stages take part in dependencies, the others are hidden until restored
+ */
+const liveTask = {
+  deleted: false,
+  stage: {
+    deleted: false,
+  },
+};
+
+/**
+ * Lists the IDs of the tasks blocking a task
+ */
+const blockerIDs = async (ctx: AccessContext, taskID: string) => {
+  const dependencies = await ctx.prisma.taskDependency.findMany({
+    where: {
+      blockedExternalID: taskID,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return dependencies.map((dependency) => dependency.blockerExternalID);
+};
+
+/**
+ * Router handling the dependencies between the tasks of a board
+ * @link /api/board/{boardID}/task/{taskID}/dependency
+ */
+export const dependencyRouter = router({
+  /**
+   * Procedure for getting the tasks blocking a task and the tasks it blocks
+   * @link /api/board/{boardID}/task/{taskID}/dependency
+   * @method GET
+   * @example
+   * ```ts
+   * const { blockers, dependents } = await trpc.query("dependency.list", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Task[]} Blockers and dependents of the task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/task/{taskID}/dependency",
+        tags: ["dependency"],
+        summary: "Get the dependencies of a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        blockers: z.array(dependencyTaskSchema),
+        dependents: z.array(dependencyTaskSchema),
+        isBlocked: z.boolean(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { doneStageExternalID } = await getAccessibleBoard(ctx, input.boardID);
+        await getAccessibleTask(ctx, input.boardID, input.taskID);
+        const [blockers, dependents] = await ctx.prisma.$transaction([
+          ctx.prisma.task.findMany({
+            where: {
+              ...liveTask,
+              Blocking: {
+                some: {
+                  blockedExternalID: input.taskID,
+                },
+              },
+            },
+            orderBy: {
+              createdAt: "asc",
+            },
+          }),
+          ctx.prisma.task.findMany({
+            where: {
+              ...liveTask,
+              BlockedBy: {
+                some: {
+                  blockerExternalID: input.taskID,
+                },
+              },
+            },
+            orderBy: {
+              createdAt: "asc",
+            },
+          }),
+        ]);
+        const format = <T extends { stageExternalID: string }>(task: T) => ({
+          ...task,
+          finished: isFinished(task, doneStageExternalID),
+        });
+
+        return {
+          blockers: blockers.map(format),
+          dependents: dependents.map(format),
+          isBlocked: blockers.some((blocker) => !isFinished(blocker, doneStageExternalID)),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for marking a task as blocked by another task of the same board, dependencies that would
+   * make a task wait on itself are rejected
+   * @link /api/board/{boardID}/task/{taskID}/dependency/{blockerID}
+   * @method PUT
+   * @example
+   * ```ts
+   * await trpc.mutation("dependency.add", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    blockerID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  add: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PUT",
+        path: "/board/{boardID}/task/{taskID}/dependency/{blockerID}",
+        tags: ["dependency"],
+        summary: "Add a blocker to a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      blockerID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        await getAccessibleTask(ctx, input.boardID, input.blockerID);
+        const before = await blockerIDs(ctx, input.taskID);
+        if (before.includes(input.blockerID)) {
+          return {};
+        }
+        if (await createsCycle(ctx.prisma, input.boardID, input.blockerID, input.taskID)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Dependency would create a cycle",
+          });
+        }
+        await ctx.prisma.taskDependency.create({
+          data: {
+            blocker: {
+              connect: {
+                externalID: input.blockerID,
+              },
+            },
+            blocked: {
+              connect: {
+                externalID: input.taskID,
+              },
+            },
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: input.taskID,
+          action: ActivityAction.UPDATE,
+          before: { blockerExternalIDs: before },
+          after: { blockerExternalIDs: [...before, input.blockerID] },
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for removing a blocker from a task, removing a task that is not a blocker is a no-op
+   * @link /api/board/{boardID}/task/{taskID}/dependency/{blockerID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("dependency.remove", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    blockerID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  remove: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/task/{taskID}/dependency/{blockerID}",
+        tags: ["dependency"],
+        summary: "Remove a blocker from a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      blockerID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        const before = await blockerIDs(ctx, input.taskID);
+        if (!before.includes(input.blockerID)) {
+          return {};
+        }
+        await ctx.prisma.taskDependency.delete({
+          where: {
+            blockerExternalID_blockedExternalID: {
+              blockerExternalID: input.blockerID,
+              blockedExternalID: input.taskID,
+            },
+          },
+        });
+        await bumpTaskVersion(ctx.prisma, input.taskID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: input.taskID,
+          action: ActivityAction.UPDATE,
+          before: { blockerExternalIDs: before },
+          after: { blockerExternalIDs: before.filter((blockerID) => blockerID !== input.blockerID) },
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
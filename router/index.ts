@@ -1,11 +1,39 @@
 import { router } from "../trpc"
+import { accessTokenRouter } from "./accessToken";
+import { adminRouter } from "./admin";
+import { analyticsRouter } from "./analytics";
 import { authRouter } from "./auth";
 import { boardRouter } from "./board";
+import { calendarRouter } from "./calendar";
+import { checklistRouter } from "./checklist";
+import { commentRouter } from "./comment";
+import { dependencyRouter } from "./dependency";
+import { labelRouter } from "./label";
+import { memberRouter } from "./member";
+import { searchRouter } from "./search";
+import { stageRouter } from "./stage";
+import { taskRouter } from "./task";
+import { templateRouter } from "./template";
 import { userRouter } from "./user";
+import { webhookRouter } from "./webhook";
 export const appRouter = router({
   auth: authRouter,
   user: userRouter,
+  accessToken: accessTokenRouter,
+  admin: adminRouter,
   board: boardRouter,
+  member: memberRouter,
+  stage: stageRouter,
+  task: taskRouter,
+  comment: commentRouter,
+  label: labelRouter,
+  search: searchRouter,
+  template: templateRouter,
+  checklist: checklistRouter,
+  dependency: dependencyRouter,
+  calendar: calendarRouter,
+  webhook: webhookRouter,
+  analytics: analyticsRouter,
 })
 
 export type AppRouter = typeof appRouter;
\ No newline at end of file
@@ -0,0 +1,536 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { AccessContext, getAccessibleBoard, getAccessibleTask } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { labelSchema } from "../utils/label";
+import { bumpTaskVersion } from "../utils/version";
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex color like #ff0000");
+
+/**
+ * Fetches a label of a board
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getLabel = async (ctx: AccessContext, boardID: string, labelID: string) => {
+  const label = await ctx.prisma.label.findFirst({
+    where: {
+      externalID: labelID,
+      boardExternalID: boardID,
+    },
+  });
+  if (!label) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Label not found",
+    });
+  }
+  return label;
+};
+
+/**
+ * Ensures no other label of a board already uses a name
+ * @throws {TRPCError} 400 - Bad Request
+ */
+const assertUniqueName = async (ctx: AccessContext, boardID: string, name: string, labelID?: string) => {
+  const existing = await ctx.prisma.label.findFirst({
+    where: {
+      boardExternalID: boardID,
+      name,
+      externalID: labelID ? { not: labelID } : undefined,
+    },
+  });
+  if (existing) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Label already exists",
+    });
+  }
+};
+
+/**
+ * Lists the IDs of the labels attached to a task
+ */
+const taskLabelIDs = async (ctx: AccessContext, taskID: string) => {
+  const taskLabels = await ctx.prisma.taskLabel.findMany({
+    where: {
+      taskExternalID: taskID,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return taskLabels.map((taskLabel) => taskLabel.labelExternalID);
+};
+
+/**
+ * Router handling board label related procedures
+ * @link /api/board/{boardID}/label
+ */
+export const labelRouter = router({
+  /**
+   * Procedure for getting all labels of a board
+   * @link /api/board/{boardID}/label
+   * @method GET
+   * @example
+   * ```ts
+   * const { labels } = await trpc.query("label.list", {
+   *  input: {
+   *    boardID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Label[]} List of labels
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/label",
+        tags: ["label"],
+        summary: "Get all labels of a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        labels: z.array(labelSchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID);
+        const labels = await ctx.prisma.label.findMany({
+          where: {
+            boardExternalID: input.boardID,
+          },
+          orderBy: {
+            name: "asc",
+          },
+        });
+
+        return {
+          labels,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a label on a board
+   * @link /api/board/{boardID}/label
+   * @method POST
+   * @example
+   * ```ts
+   * const { label } = await trpc.mutation("label.create", {
+   *  input: {
+   *    boardID: "uuid",
+   *    name: "bug",
+   *    color: "#d73a4a"
+   *  }
+   * })
+   * ```
+   * @returns {Label} Label
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/label",
+        tags: ["label"],
+        summary: "Create a label",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      name: z.string().min(1).max(50),
+      color: colorSchema,
+    }))
+    .output(
+      z.object({
+        label: labelSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        await assertUniqueName(ctx, input.boardID, input.name);
+        const label = await ctx.prisma.label.create({
+          data: {
+            name: input.name,
+            color: input.color.toLowerCase(),
+            board: {
+              connect: {
+                externalID: input.boardID,
+              },
+            },
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.LABEL,
+          entityID: label.externalID,
+          action: ActivityAction.CREATE,
+          after: label,
+        });
+
+        return {
+          label,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for updating a label
+   * @link /api/board/{boardID}/label/{externalID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { label } = await trpc.mutation("label.update", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    color: "#0e8a16"
+   *  }
+   * })
+   * ```
+   * @returns {Label} Label
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  update: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/label/{externalID}",
+        tags: ["label"],
+        summary: "Update a label",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      name: z.string().min(1).max(50).optional(),
+      color: colorSchema.optional(),
+    }))
+    .output(
+      z.object({
+        label: labelSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        const before = await getLabel(ctx, input.boardID, input.externalID);
+        if (input.name) {
+          await assertUniqueName(ctx, input.boardID, input.name, input.externalID);
+        }
+        const label = await ctx.prisma.label.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            name: input.name,
+            color: input.color?.toLowerCase(),
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.LABEL,
+          entityID: label.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: label,
+        });
+
+        return {
+          label,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a label, detaching it from every task of the board
+   * @link /api/board/{boardID}/label/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("label.delete", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/label/{externalID}",
+        tags: ["label"],
+        summary: "Delete a label",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        const label = await getLabel(ctx, input.boardID, input.externalID);
+        // Labels are hard deleted so their name can be reused, the join rows go with them.
+        await ctx.prisma.label.delete({
+          where: {
+            externalID: input.externalID,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.LABEL,
+          entityID: label.externalID,
+          action: ActivityAction.DELETE,
+          before: label,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for attaching a label to a task, attaching an already attached label is a no-op
+   * @link /api/board/{boardID}/task/{taskID}/label/{externalID}
+   * @method PUT
+   * @example
+   * ```ts
+   * const { labels } = await trpc.mutation("label.attach", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Label[]} Labels of the task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  attach: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PUT",
+        path: "/board/{boardID}/task/{taskID}/label/{externalID}",
+        tags: ["label"],
+        summary: "Attach a label to a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        labels: z.array(labelSchema),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        await getLabel(ctx, input.boardID, input.externalID);
+        const before = await taskLabelIDs(ctx, input.taskID);
+        if (!before.includes(input.externalID)) {
+          await ctx.prisma.taskLabel.create({
+            data: {
+              task: {
+                connect: {
+                  externalID: input.taskID,
+                },
+              },
+              label: {
+                connect: {
+                  externalID: input.externalID,
+                },
+              },
+            },
+          });
+          await bumpTaskVersion(ctx.prisma, input.taskID);
+          await recordActivity(ctx.prisma, {
+            actorID: ctx.user.externalID,
+            boardID: input.boardID,
+            entity: ActivityEntity.TASK,
+            entityID: input.taskID,
+            action: ActivityAction.UPDATE,
+            before: { labelExternalIDs: before },
+            after: { labelExternalIDs: [...before, input.externalID] },
+          });
+        }
+        const labels = await ctx.prisma.label.findMany({
+          where: {
+            TaskLabel: {
+              some: {
+                taskExternalID: input.taskID,
+              },
+            },
+          },
+          orderBy: {
+            name: "asc",
+          },
+        });
+
+        return {
+          labels,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for detaching a label from a task, detaching a label that is not attached is a no-op
+   * @link /api/board/{boardID}/task/{taskID}/label/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * const { labels } = await trpc.mutation("label.detach", {
+   *  input: {
+   *    boardID: "uuid",
+   *    taskID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Label[]} Labels of the task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  detach: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/task/{taskID}/label/{externalID}",
+        tags: ["label"],
+        summary: "Detach a label from a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      taskID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        labels: z.array(labelSchema),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.taskID, BoardRole.EDITOR);
+        await getLabel(ctx, input.boardID, input.externalID);
+        const before = await taskLabelIDs(ctx, input.taskID);
+        if (before.includes(input.externalID)) {
+          await ctx.prisma.taskLabel.delete({
+            where: {
+              taskExternalID_labelExternalID: {
+                taskExternalID: input.taskID,
+                labelExternalID: input.externalID,
+              },
+            },
+          });
+          await bumpTaskVersion(ctx.prisma, input.taskID);
+          await recordActivity(ctx.prisma, {
+            actorID: ctx.user.externalID,
+            boardID: input.boardID,
+            entity: ActivityEntity.TASK,
+            entityID: input.taskID,
+            action: ActivityAction.UPDATE,
+            before: { labelExternalIDs: before },
+            after: { labelExternalIDs: before.filter((labelID) => labelID !== input.externalID) },
+          });
+        }
+        const labels = await ctx.prisma.label.findMany({
+          where: {
+            TaskLabel: {
+              some: {
+                taskExternalID: input.taskID,
+              },
+            },
+          },
+          orderBy: {
+            name: "asc",
+          },
+        });
+
+        return {
+          labels,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
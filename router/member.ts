@@ -0,0 +1,489 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { AccessContext, getAccessibleBoard } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+
+const memberSchema = z.object({
+  user: z.object({
+    externalID: z.string().uuid(),
+    username: z.string(),
+  }),
+  role: z.nativeEnum(BoardRole),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Roles that can be granted through invites and role changes, ownership is only handed over through `transfer`
+ */
+const assignableRole = z.enum([BoardRole.EDITOR, BoardRole.VIEWER]);
+
+/**
+ * Fetches the membership of a user on a board
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getMember = async (ctx: AccessContext, boardID: string, userID: string) => {
+  const member = await ctx.prisma.boardMember.findUnique({
+    where: {
+      boardExternalID_userExternalID: {
+        boardExternalID: boardID,
+        userExternalID: userID,
+      },
+    },
+  });
+  if (!member) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Member not found",
+    });
+  }
+  return member;
+};
+
+/**
+ * Router handling board membership related procedures
+ * @link /api/board/{boardID}/member
+ */
+export const memberRouter = router({
+  /**
+   * Procedure for getting all members of a board
+   * @link /api/board/{boardID}/member
+   * @method GET
+   * @example
+   * ```ts
+   * const { members } = await trpc.query("member.list", {
+   *  input: {
+   *    boardID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {BoardMember[]} List of members
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/member",
+        tags: ["member"],
+        summary: "Get all members of a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        members: z.array(memberSchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID);
+        const members = await ctx.prisma.boardMember.findMany({
+          where: {
+            boardExternalID: input.boardID,
+          },
+          include: {
+            user: true,
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        });
+
+        return {
+          members,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for inviting a user to a board
+   * @link /api/board/{boardID}/member
+   * @method POST
+   * @example
+   * ```ts
+   * const { member } = await trpc.mutation("member.invite", {
+   *  input: {
+   *    boardID: "uuid",
+   *    username: "test",
+   *    role: "EDITOR"
+   *  }
+   * })
+   * ```
+   * @returns {BoardMember} Member
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  invite: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/member",
+        tags: ["member"],
+        summary: "Invite a user to a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      username: z.string(),
+      role: assignableRole.default(BoardRole.VIEWER),
+    }))
+    .output(
+      z.object({
+        member: memberSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        const user = await ctx.prisma.user.findFirst({
+          where: {
+            username: input.username,
+            deleted: false,
+          },
+        });
+        if (!user) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "User not found",
+          });
+        }
+        const existingMember = await ctx.prisma.boardMember.findUnique({
+          where: {
+            boardExternalID_userExternalID: {
+              boardExternalID: input.boardID,
+              userExternalID: user.externalID,
+            },
+          },
+        });
+        if (existingMember) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "User is already a member of this board",
+          });
+        }
+        const member = await ctx.prisma.boardMember.create({
+          data: {
+            role: input.role,
+            board: {
+              connect: {
+                externalID: input.boardID,
+              },
+            },
+            user: {
+              connect: {
+                externalID: user.externalID,
+              },
+            },
+          },
+          include: {
+            user: true,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.MEMBER,
+          entityID: member.externalID,
+          action: ActivityAction.CREATE,
+          after: member,
+        });
+
+        return {
+          member,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for changing the role of a board member
+   * @link /api/board/{boardID}/member/{userID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { member } = await trpc.mutation("member.changeRole", {
+   *  input: {
+   *    boardID: "uuid",
+   *    userID: "uuid",
+   *    role: "VIEWER"
+   *  }
+   * })
+   * ```
+   * @returns {BoardMember} Member
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  changeRole: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/member/{userID}",
+        tags: ["member"],
+        summary: "Change the role of a board member",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      userID: z.string().uuid(),
+      role: assignableRole,
+    }))
+    .output(
+      z.object({
+        member: memberSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        if (input.userID === ctx.user.externalID) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Transfer ownership to step down as owner",
+          });
+        }
+        const existingMember = await getMember(ctx, input.boardID, input.userID);
+        const member = await ctx.prisma.boardMember.update({
+          where: {
+            externalID: existingMember.externalID,
+          },
+          data: {
+            role: input.role,
+          },
+          include: {
+            user: true,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.MEMBER,
+          entityID: member.externalID,
+          action: ActivityAction.UPDATE,
+          before: existingMember,
+          after: member,
+        });
+
+        return {
+          member,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for removing a member from a board, members can also remove themselves
+   * @link /api/board/{boardID}/member/{userID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("member.remove", {
+   *  input: {
+   *    boardID: "uuid",
+   *    userID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  remove: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/member/{userID}",
+        tags: ["member"],
+        summary: "Remove a member from a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      userID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const leaving = input.userID === ctx.user.externalID;
+        const { role } = await getAccessibleBoard(ctx, input.boardID, leaving ? BoardRole.VIEWER : BoardRole.OWNER);
+        if (leaving && role === BoardRole.OWNER) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Transfer ownership before leaving the board",
+          });
+        }
+        const member = await getMember(ctx, input.boardID, input.userID);
+        await ctx.prisma.boardMember.delete({
+          where: {
+            externalID: member.externalID,
+          },
+        });
+        // Former members keep no assignments on the board they lost access to
+        await ctx.prisma.taskAssignee.deleteMany({
+          where: {
+            userExternalID: input.userID,
+            task: {
+              stage: {
+                boardExternalID: input.boardID,
+              },
+            },
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.MEMBER,
+          entityID: member.externalID,
+          action: ActivityAction.DELETE,
+          before: member,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for transferring board ownership to another member, the current owner becomes an editor
+   * @link /api/board/{boardID}/member/{userID}/transfer
+   * @method POST
+   * @example
+   * ```ts
+   * const { member } = await trpc.mutation("member.transfer", {
+   *  input: {
+   *    boardID: "uuid",
+   *    userID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {BoardMember} New owner
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  transfer: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/member/{userID}/transfer",
+        tags: ["member"],
+        summary: "Transfer board ownership",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      userID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        member: memberSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        if (input.userID === ctx.user.externalID) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "You already own this board",
+          });
+        }
+        const newOwner = await getMember(ctx, input.boardID, input.userID);
+        const [member, previousOwner] = await ctx.prisma.$transaction([
+          ctx.prisma.boardMember.update({
+            where: {
+              externalID: newOwner.externalID,
+            },
+            data: {
+              role: BoardRole.OWNER,
+            },
+            include: {
+              user: true,
+            },
+          }),
+          ctx.prisma.boardMember.update({
+            where: {
+              boardExternalID_userExternalID: {
+                boardExternalID: input.boardID,
+                userExternalID: ctx.user.externalID,
+              },
+            },
+            data: {
+              role: BoardRole.EDITOR,
+            },
+          }),
+        ]);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.MEMBER,
+          entityID: member.externalID,
+          action: ActivityAction.UPDATE,
+          before: newOwner,
+          after: member,
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.MEMBER,
+          entityID: previousOwner.externalID,
+          action: ActivityAction.UPDATE,
+          before: { ...previousOwner, role: BoardRole.OWNER },
+          after: previousOwner,
+        });
+
+        return {
+          member,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
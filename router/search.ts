@@ -0,0 +1,260 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+
+const resultSchema = z.object({
+  type: z.enum(["board", "stage", "task"]),
+  externalID: z.string().uuid(),
+  title: z.string(),
+  description: z.string(),
+  version: z.number().int(),
+  boardExternalID: z.string().uuid(),
+  stageExternalID: z.string().uuid().nullable(),
+  createdBy: z.object({
+    externalID: z.string().uuid(),
+    username: z.string(),
+  }),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+type SearchResult = z.infer<typeof resultSchema>;
+
+const cursorSchema = z.object({
+  createdAt: z.coerce.date(),
+  externalID: z.string().uuid(),
+});
+
+/**
+ * Results of the three entity types are merged into one list, so the cursor carries the sort key of the
+ * last result instead of an ID of a single table
+ */
+const encodeCursor = (result: SearchResult) => Buffer.from(JSON.stringify({
+  createdAt: result.createdAt.toISOString(),
+  externalID: result.externalID,
+})).toString("base64url");
+
+/**
+ * @throws {TRPCError} 400 - Bad Request
+ */
+const decodeCursor = (cursor: string) => {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString()));
+  } catch {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid cursor",
+    });
+  }
+};
+
+/**
+ * Every whitespace separated term has to appear in the title or the description
+ */
+const textFilter = (q: string) => ({
+  AND: q.split(/\s+/).filter(Boolean).map((term) => ({
+    OR: [
+      { title: { contains: term } },
+      { description: { contains: term } },
+    ],
+  })),
+});
+
+/**
+ * Keeps the rows sorted after the cursor, ties on `createdAt` are broken by `externalID`
+ */
+const keysetFilter = (cursor: z.infer<typeof cursorSchema> | null, order: Prisma.SortOrder) => {
+  if (!cursor) {
+    return {};
+  }
+  const operator = order === "desc" ? "lt" : "gt";
+  return {
+    OR: [
+      { createdAt: { [operator]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, externalID: { [operator]: cursor.externalID } },
+    ],
+  };
+};
+
+const compareResults = (a: SearchResult, b: SearchResult) =>
+  a.createdAt.getTime() - b.createdAt.getTime() || (a.externalID < b.externalID ? -1 : a.externalID > b.externalID ? 1 : 0);
+
+/**
+ * Router handling search procedures
+ * @link /api/search
+ */
+export const searchRouter = router({
+  /**
+   * Procedure for searching the titles and descriptions of the boards, stages and tasks the current user can access.
+   * Task only filters (priority and due date) leave boards and stages out of the results.
+   * @link /api/search
+   * @method GET
+   * @example
+   * ```ts
+   * const { results, nextCursor, total } = await trpc.query("search.query", {
+   *  input: {
+   *    q: "login bug",
+   *    boardID: "uuid",
+   *    priorityMin: 1,
+   *    dueBefore: new Date(),
+   *    limit: 20,
+   *    cursor: "cursor from the previous page"
+   *  }
+   * })
+   * ```
+   * @returns {SearchResult[]} Page of results with the cursor of the next page and the total count
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  query: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/search",
+        tags: ["search"],
+        summary: "Search boards, stages and tasks",
+      },
+    })
+    .input(z.object({
+      q: z.string().trim().min(1),
+      type: z.enum(["board", "stage", "task"]).optional(),
+      boardID: z.string().uuid().optional(),
+      stageID: z.string().uuid().optional(),
+      priorityMin: z.number().int().optional(),
+      priorityMax: z.number().int().optional(),
+      dueAfter: z.coerce.date().optional(),
+      dueBefore: z.coerce.date().optional(),
+      createdBy: z.string().uuid().optional(),
+      order: z.enum(["asc", "desc"]).default("desc"),
+      limit: z.number().min(1).max(100).default(20),
+      cursor: z.string().optional(),
+    }))
+    .output(
+      z.object({
+        results: z.array(resultSchema),
+        nextCursor: z.string().nullable(),
+        total: z.number(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const cursor = input.cursor ? decodeCursor(input.cursor) : null;
+        const taskOnly = input.priorityMin !== undefined || input.priorityMax !== undefined
+          || input.dueAfter !== undefined || input.dueBefore !== undefined;
+        const includes = (type: SearchResult["type"]) => !input.type || input.type === type;
+        const searchBoards = includes("board") && !taskOnly && !input.stageID;
+        const searchStages = includes("stage") && !taskOnly;
+        const searchTasks = includes("task");
+
+        const boardWhere: Prisma.BoardWhereInput = {
+          deleted: false,
+          externalID: input.boardID,
+          BoardMember: {
+            some: {
+              userExternalID: ctx.user.externalID,
+            },
+          },
+        };
+        const stageWhere: Prisma.StageWhereInput = {
+          deleted: false,
+          externalID: input.stageID,
+          board: boardWhere,
+        };
+        const where = {
+          board: {
+            ...boardWhere,
+            ...textFilter(input.q),
+            userExternalID: input.createdBy,
+          } satisfies Prisma.BoardWhereInput,
+          stage: {
+            ...stageWhere,
+            ...textFilter(input.q),
+            userExternalID: input.createdBy,
+          } satisfies Prisma.StageWhereInput,
+          task: {
+            deleted: false,
+            stage: stageWhere,
+            ...textFilter(input.q),
+            userExternalID: input.createdBy,
+            priority: {
+              gte: input.priorityMin,
+              lte: input.priorityMax,
+            },
+            dueDate: {
+              gte: input.dueAfter,
+              lte: input.dueBefore,
+            },
+          } satisfies Prisma.TaskWhereInput,
+        };
+        const page = {
+          include: {
+            createdBy: true,
+          },
+          orderBy: [
+            { createdAt: input.order },
+            { externalID: input.order },
+          ],
+          // One extra row tells whether there is a next page
+          take: input.limit + 1,
+        };
+
+        const [boards, stages, tasks, boardCount, stageCount, taskCount] = await Promise.all([
+          searchBoards ? ctx.prisma.board.findMany({
+            ...page,
+            where: { AND: [where.board, keysetFilter(cursor, input.order)] },
+          }) : [],
+          searchStages ? ctx.prisma.stage.findMany({
+            ...page,
+            where: { AND: [where.stage, keysetFilter(cursor, input.order)] },
+          }) : [],
+          searchTasks ? ctx.prisma.task.findMany({
+            ...page,
+            where: { AND: [where.task, keysetFilter(cursor, input.order)] },
+            include: {
+              createdBy: true,
+              stage: true,
+            },
+          }) : [],
+          searchBoards ? ctx.prisma.board.count({ where: where.board }) : 0,
+          searchStages ? ctx.prisma.stage.count({ where: where.stage }) : 0,
+          searchTasks ? ctx.prisma.task.count({ where: where.task }) : 0,
+        ]);
+
+        const results: SearchResult[] = [
+          ...boards.map((board) => ({
+            ...board,
+            type: "board" as const,
+            boardExternalID: board.externalID,
+            stageExternalID: null,
+          })),
+          ...stages.map((stage) => ({
+            ...stage,
+            type: "stage" as const,
+            stageExternalID: null,
+          })),
+          ...tasks.map((task) => ({
+            ...task,
+            type: "task" as const,
+            boardExternalID: task.stage.boardExternalID,
+          })),
+        ].sort((a, b) => input.order === "desc" ? compareResults(b, a) : compareResults(a, b));
+        const pageResults = results.slice(0, input.limit);
+
+        return {
+          results: pageResults,
+          nextCursor: results.length > input.limit ? encodeCursor(pageResults[pageResults.length - 1]) : null,
+          total: boardCount + stageCount + taskCount,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,671 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { AccessContext, getAccessibleBoard, getAccessibleStage } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { rankBetween } from "../utils/rank";
+import { assertVersion, expectedVersionSchema, versionConflict, versionFilter } from "../utils/version";
+
+const stageSchema = z.object({
+  externalID: z.string().uuid(),
+  title: z.string(),
+  description: z.string(),
+  version: z.number().int(),
+  rank: z.string(),
+  wipLimit: z.number().int().nullable(),
+  createdBy: z.object({
+    externalID: z.string().uuid(),
+    username: z.string(),
+  }),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Computes the rank placing a stage right after `afterID`, or first in the board when omitted
+ */
+const placeStage = async (ctx: AccessContext, boardID: string, stageID: string, afterID?: string) => {
+  let before: string | null = null;
+  if (afterID) {
+    if (afterID === stageID) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Stage cannot be placed after itself",
+      });
+    }
+    const after = await getAccessibleStage(ctx, boardID, afterID);
+    before = after.rank;
+  }
+  const next = await ctx.prisma.stage.findFirst({
+    where: {
+      boardExternalID: boardID,
+      deleted: false,
+      externalID: { not: stageID },
+      rank: before !== null ? { gt: before } : undefined,
+    },
+    orderBy: [
+      { rank: "asc" },
+      { createdAt: "asc" },
+    ],
+  });
+  return rankBetween(before, next?.rank ?? null);
+};
+
+/**
+ * Router handling all stage (board column) related procedures
+ * @link /api/board/{boardID}/stage
+ */
+export const stageRouter = router({
+  /**
+   * Procedure for getting all stages of a board
+   * @link /api/board/{boardID}/stage
+   * @method GET
+   * @example
+   * ```ts
+   * const { stages } = await trpc.query("stage.list", {
+   *  input: {
+   *    boardID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Stage[]} List of stages
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/stage",
+        tags: ["stage"],
+        summary: "Get all stages of a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        stages: z.array(stageSchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID);
+        const stages = await ctx.prisma.stage.findMany({
+          where: {
+            boardExternalID: input.boardID,
+            deleted: false,
+          },
+          include: {
+            createdBy: true,
+          },
+          orderBy: [
+            { rank: "asc" },
+            { createdAt: "asc" },
+          ],
+        });
+
+        return {
+          stages,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting a stage
+   * @link /api/board/{boardID}/stage/{externalID}
+   * @method GET
+   * @example
+   * ```ts
+   * const { stage } = await trpc.query("stage.get", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Stage} Stage
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  get: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/stage/{externalID}",
+        tags: ["stage"],
+        summary: "Get a stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        stage: stageSchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleStage(ctx, input.boardID, input.externalID);
+        const stage = await ctx.prisma.stage.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: {
+            createdBy: true,
+          },
+        });
+
+        return {
+          stage,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a stage
+   * @link /api/board/{boardID}/stage
+   * @method POST
+   * @example
+   * ```ts
+   * const { stage } = await trpc.mutation("stage.create", {
+   *  input: {
+   *    boardID: "uuid",
+   *    title: "Stage Title",
+   *    description: "Stage Description",
+   *    wipLimit: 3 // optional, no limit when omitted
+   *  }
+   * })
+   * ```
+   * @returns {Stage} Stage
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/stage",
+        tags: ["stage"],
+        summary: "Create a stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      title: z.string().min(1),
+      description: z.string().optional(),
+      wipLimit: z.number().int().positive().nullable().optional(),
+    }))
+    .output(
+      z.object({
+        stage: stageSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        const last = await ctx.prisma.stage.findFirst({
+          where: {
+            boardExternalID: input.boardID,
+            deleted: false,
+          },
+          orderBy: {
+            rank: "desc",
+          },
+        });
+        const stage = await ctx.prisma.stage.create({
+          data: {
+            title: input.title,
+            description: input.description || "",
+            rank: rankBetween(last?.rank ?? null, null),
+            wipLimit: input.wipLimit,
+            board: {
+              connect: {
+                externalID: input.boardID,
+              },
+            },
+            createdBy: {
+              connect: {
+                externalID: ctx.user.externalID,
+              },
+            },
+          },
+          include: {
+            createdBy: true,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.STAGE,
+          entityID: stage.externalID,
+          action: ActivityAction.CREATE,
+          after: stage,
+        });
+
+        return {
+          stage,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for updating a stage
+   * @link /api/board/{boardID}/stage/{externalID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { stage } = await trpc.mutation("stage.update", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    title: "Stage Title",
+   *    description: "Stage Description",
+   *    wipLimit: null, // removes the limit
+   *    version: 3 // optional, rejects the update if the stage changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns {Stage} Stage
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  update: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/stage/{externalID}",
+        tags: ["stage"],
+        summary: "Update a stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      title: z.string().min(1).optional(),
+      description: z.string().optional(),
+      wipLimit: z.number().int().positive().nullable().optional(),
+      version: expectedVersionSchema,
+    }))
+    .output(
+      z.object({
+        stage: stageSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const before = await getAccessibleStage(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(before, input.version);
+        const { count } = await ctx.prisma.stage.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            title: input.title,
+            description: input.description,
+            wipLimit: input.wipLimit,
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        const stage = await ctx.prisma.stage.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: {
+            createdBy: true,
+          },
+        });
+        if (count === 0) {
+          throw versionConflict(stage);
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.STAGE,
+          entityID: stage.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: stage,
+        });
+
+        return {
+          stage,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for reordering a stage within its board
+   * @link /api/board/{boardID}/stage/{externalID}/reorder
+   * @method POST
+   * @example
+   * ```ts
+   * const { stage } = await trpc.mutation("stage.reorder", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    afterID: "uuid", // omit to move the stage to the front
+   *    version: 3 // optional, rejects the move if the stage changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns {Stage} Stage
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  reorder: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/stage/{externalID}/reorder",
+        tags: ["stage"],
+        summary: "Reorder a stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      afterID: z.string().uuid().optional(),
+      version: expectedVersionSchema,
+    }))
+    .output(
+      z.object({
+        stage: stageSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const before = await getAccessibleStage(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(before, input.version);
+        const rank = await placeStage(ctx, input.boardID, input.externalID, input.afterID);
+        const { count } = await ctx.prisma.stage.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            rank,
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        const stage = await ctx.prisma.stage.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: {
+            createdBy: true,
+          },
+        });
+        if (count === 0) {
+          throw versionConflict(stage);
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.STAGE,
+          entityID: stage.externalID,
+          action: ActivityAction.MOVE,
+          before,
+          after: stage,
+        });
+
+        return {
+          stage,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a stage. Deleting the done stage of its board leaves the board without one, restoring
+   * the stage does not set it back.
+   * @link /api/board/{boardID}/stage/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("stage.delete", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    version: 3 // optional, rejects the deletion if the stage changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/stage/{externalID}",
+        tags: ["stage"],
+        summary: "Delete a stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      version: expectedVersionSchema,
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const stage = await getAccessibleStage(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(stage, input.version);
+        const { count } = await ctx.prisma.stage.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            deleted: true,
+            deletedAt: new Date(),
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        if (count === 0) {
+          throw versionConflict(await ctx.prisma.stage.findUniqueOrThrow({
+            where: {
+              externalID: input.externalID,
+            },
+            include: {
+              createdBy: true,
+            },
+          }));
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.STAGE,
+          entityID: stage.externalID,
+          action: ActivityAction.DELETE,
+          before: stage,
+        });
+        // A trashed done stage would leave every task of the board unfinished
+        const board = await ctx.prisma.board.updateMany({
+          where: {
+            externalID: input.boardID,
+            doneStageExternalID: input.externalID,
+          },
+          data: {
+            doneStageExternalID: null,
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        if (board.count > 0) {
+          await recordActivity(ctx.prisma, {
+            actorID: ctx.user.externalID,
+            boardID: input.boardID,
+            entity: ActivityEntity.BOARD,
+            entityID: input.boardID,
+            action: ActivityAction.UPDATE,
+            before: { doneStageExternalID: input.externalID },
+            after: { doneStageExternalID: null },
+          });
+        }
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for restoring a deleted stage from the trash, its tasks come back with it
+   * @link /api/board/{boardID}/stage/{externalID}/restore
+   * @method POST
+   * @example
+   * ```ts
+   * const { stage } = await trpc.mutation("stage.restore", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Stage} Stage
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  restore: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/stage/{externalID}/restore",
+        tags: ["stage"],
+        summary: "Restore a deleted stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        stage: stageSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        const deleted = await ctx.prisma.stage.findFirst({
+          where: {
+            externalID: input.externalID,
+            boardExternalID: input.boardID,
+            deleted: true,
+          },
+        });
+        if (!deleted) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Stage not found",
+          });
+        }
+        const stage = await ctx.prisma.stage.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            deleted: false,
+            deletedAt: null,
+            version: {
+              increment: 1,
+            },
+          },
+          include: {
+            createdBy: true,
+          },
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.STAGE,
+          entityID: stage.externalID,
+          action: ActivityAction.RESTORE,
+          after: stage,
+        });
+
+        return {
+          stage,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,1041 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole, Prisma, Stage } from "@prisma/client";
+import { AccessContext, getAccessibleBoard, getAccessibleStage, getAccessibleTask } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { recordTransition } from "../utils/analytics";
+import { assigneeSchema, formatTaskAssignees, taskAssigneeInclude } from "../utils/assignee";
+import { checklistProgressInclude, checklistProgressSchema, formatChecklistProgress } from "../utils/checklist";
+import { blockerInclude, formatBlocked } from "../utils/dependency";
+import { formatTaskLabels, labelFilter, labelIDsSchema, labelSchema, taskLabelInclude } from "../utils/label";
+import { rankBetween } from "../utils/rank";
+import { assertVersion, bumpTaskVersion, expectedVersionSchema, versionConflict, versionFilter } from "../utils/version";
+import { assertWipLimit } from "../utils/wip";
+
+const taskSchema = z.object({
+  externalID: z.string().uuid(),
+  title: z.string(),
+  description: z.string(),
+  version: z.number().int(),
+  priority: z.number().int(),
+  rank: z.string(),
+  dueDate: z.date(),
+  stageExternalID: z.string().uuid(),
+  createdBy: z.object({
+    externalID: z.string().uuid(),
+    username: z.string(),
+  }),
+  labels: z.array(labelSchema),
+  assignees: z.array(assigneeSchema),
+  checklist: checklistProgressSchema,
+  isBlocked: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const taskInclude = {
+  createdBy: true,
+  stage: {
+    include: {
+      board: true,
+    },
+  },
+  ...taskLabelInclude,
+  ...taskAssigneeInclude,
+  ...checklistProgressInclude,
+  ...blockerInclude,
+} as const;
+
+/**
+ * Flattens the label and assignee join rows of a task, counts its checklist progress and tells whether
+ * it is blocked by an unfinished task
+ */
+const formatTask = (task: Prisma.TaskGetPayload<{ include: typeof taskInclude }>) => formatBlocked(
+  formatChecklistProgress(formatTaskAssignees(formatTaskLabels(task))),
+  task.stage.board.doneStageExternalID,
+);
+
+/**
+ * Lists the IDs of the users assigned to a task
+ */
+const taskAssigneeIDs = async (ctx: AccessContext, taskID: string) => {
+  const assignees = await ctx.prisma.taskAssignee.findMany({
+    where: {
+      taskExternalID: taskID,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return assignees.map((assignee) => assignee.userExternalID);
+};
+
+/**
+ * Computes the rank placing a task right after `afterID` in a stage, or first in the stage when omitted
+ */
+const placeTask = async (ctx: AccessContext, boardID: string, stageID: string, taskID: string, afterID?: string) => {
+  let before: string | null = null;
+  if (afterID) {
+    if (afterID === taskID) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Task cannot be placed after itself",
+      });
+    }
+    const after = await getAccessibleTask(ctx, boardID, afterID);
+    if (after.stageExternalID !== stageID) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Task to place after is not in the target stage",
+      });
+    }
+    before = after.rank;
+  }
+  const next = await ctx.prisma.task.findFirst({
+    where: {
+      stageExternalID: stageID,
+      deleted: false,
+      externalID: { not: taskID },
+      rank: before !== null ? { gt: before } : undefined,
+    },
+    orderBy: [
+      { rank: "asc" },
+      { createdAt: "asc" },
+    ],
+  });
+  return rankBetween(before, next?.rank ?? null);
+};
+
+/**
+ * Computes the rank placing a task last in a stage
+ */
+const lastTaskRank = async (ctx: AccessContext, stageID: string) => {
+  const last = await ctx.prisma.task.findFirst({
+    where: {
+      stageExternalID: stageID,
+      deleted: false,
+    },
+    orderBy: {
+      rank: "desc",
+    },
+  });
+  return rankBetween(last?.rank ?? null, null);
+};
+
+/**
+ * Checks that a task can be moved into a stage without exceeding its WIP limit, unless a board owner
+ * explicitly overrides the limit
+ * @throws {TRPCError} 403 - Forbidden
+ * @throws {TRPCError} 412 - Precondition Failed
+ */
+const enforceWipLimit = async (ctx: AccessContext, boardID: string, stage: Stage, override: boolean) => {
+  if (!override) {
+    return assertWipLimit(ctx.prisma, stage);
+  }
+  const { role } = await getAccessibleBoard(ctx, boardID);
+  if (role !== BoardRole.OWNER) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only board owners can override WIP limits",
+    });
+  }
+};
+
+/**
+ * Router handling all task (board card) related procedures
+ * @link /api/board/{boardID}/task
+ */
+export const taskRouter = router({
+  /**
+   * Procedure for getting all tasks of a stage
+   * @link /api/board/{boardID}/stage/{stageID}/task
+   * @method GET
+   * @example
+   * ```ts
+   * const { tasks } = await trpc.query("task.list", {
+   *  input: {
+   *    boardID: "uuid",
+   *    stageID: "uuid",
+   *    labelIDs: ["uuid"] // optional, only tasks carrying one of these labels
+   *  }
+   * })
+   * ```
+   * @returns {Task[]} List of tasks
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/stage/{stageID}/task",
+        tags: ["task"],
+        summary: "Get all tasks of a stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      stageID: z.string().uuid(),
+      labelIDs: labelIDsSchema.optional(),
+    }))
+    .output(
+      z.object({
+        tasks: z.array(taskSchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleStage(ctx, input.boardID, input.stageID);
+        const tasks = await ctx.prisma.task.findMany({
+          where: {
+            stageExternalID: input.stageID,
+            deleted: false,
+            ...labelFilter(input.labelIDs),
+          },
+          include: taskInclude,
+          orderBy: [
+            { rank: "asc" },
+            { createdAt: "asc" },
+          ],
+        });
+
+        return {
+          tasks: tasks.map(formatTask),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting a task
+   * @link /api/board/{boardID}/task/{externalID}
+   * @method GET
+   * @example
+   * ```ts
+   * const { task } = await trpc.query("task.get", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  get: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/task/{externalID}",
+        tags: ["task"],
+        summary: "Get a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.externalID);
+        const task = await ctx.prisma.task.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: taskInclude,
+        });
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a task in a stage
+   * @link /api/board/{boardID}/stage/{stageID}/task
+   * @method POST
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.create", {
+   *  input: {
+   *    boardID: "uuid",
+   *    stageID: "uuid",
+   *    title: "Task Title",
+   *    description: "Task Description",
+   *    priority: 1,
+   *    dueDate: new Date()
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 412 - Precondition Failed
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/stage/{stageID}/task",
+        tags: ["task"],
+        summary: "Create a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      stageID: z.string().uuid(),
+      title: z.string().min(1),
+      description: z.string().optional(),
+      priority: z.number().int().optional(),
+      dueDate: z.coerce.date(),
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const stage = await getAccessibleStage(ctx, input.boardID, input.stageID, BoardRole.EDITOR);
+        await assertWipLimit(ctx.prisma, stage);
+        const task = await ctx.prisma.task.create({
+          data: {
+            title: input.title,
+            description: input.description || "",
+            priority: input.priority,
+            dueDate: input.dueDate,
+            rank: await lastTaskRank(ctx, input.stageID),
+            stage: {
+              connect: {
+                externalID: input.stageID,
+              },
+            },
+            createdBy: {
+              connect: {
+                externalID: ctx.user.externalID,
+              },
+            },
+          },
+          include: taskInclude,
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: task.externalID,
+          action: ActivityAction.CREATE,
+          after: task,
+        });
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for updating a task
+   * @link /api/board/{boardID}/task/{externalID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.update", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    title: "Task Title",
+   *    priority: 2,
+   *    version: 3 // optional, rejects the update if the task changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  update: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/task/{externalID}",
+        tags: ["task"],
+        summary: "Update a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      title: z.string().min(1).optional(),
+      description: z.string().optional(),
+      priority: z.number().int().optional(),
+      dueDate: z.coerce.date().optional(),
+      version: expectedVersionSchema,
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const before = await getAccessibleTask(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(before, input.version);
+        const { count } = await ctx.prisma.task.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            title: input.title,
+            description: input.description,
+            priority: input.priority,
+            dueDate: input.dueDate,
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        const task = await ctx.prisma.task.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: taskInclude,
+        });
+        if (count === 0) {
+          throw versionConflict(formatTask(task));
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: task.externalID,
+          action: ActivityAction.UPDATE,
+          before,
+          after: task,
+        });
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for moving a task to the end of another stage of the same board
+   * @link /api/board/{boardID}/task/{externalID}/move
+   * @method POST
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.move", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    stageID: "uuid",
+   *    override: false, // board owners can set it to ignore the WIP limit of the stage
+   *    version: 3 // optional, rejects the move if the task changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 412 - Precondition Failed
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  move: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{externalID}/move",
+        tags: ["task"],
+        summary: "Move a task to another stage",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      stageID: z.string().uuid(),
+      override: z.boolean().default(false),
+      version: expectedVersionSchema,
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Both lookups are scoped to the same board, so a task can never be
+        // moved into a deleted stage or a stage of another board.
+        const before = await getAccessibleTask(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(before, input.version);
+        const stage = await getAccessibleStage(ctx, input.boardID, input.stageID);
+        if (stage.externalID !== before.stageExternalID) {
+          await enforceWipLimit(ctx, input.boardID, stage, input.override);
+        }
+        const { count } = await ctx.prisma.task.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            rank: await lastTaskRank(ctx, input.stageID),
+            stageExternalID: input.stageID,
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        const task = await ctx.prisma.task.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: taskInclude,
+        });
+        if (count === 0) {
+          throw versionConflict(formatTask(task));
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: task.externalID,
+          action: ActivityAction.MOVE,
+          before,
+          after: task,
+        });
+        await recordTransition(ctx.prisma, task.externalID, before.stageExternalID, task.stageExternalID);
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for reordering a task within its stage or into another stage of the same board
+   * @link /api/board/{boardID}/task/{externalID}/reorder
+   * @method POST
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.reorder", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    stageID: "uuid", // omit to stay in the current stage
+   *    afterID: "uuid", // omit to move the task to the top of the stage
+   *    override: false, // board owners can set it to ignore the WIP limit of the stage
+   *    version: 3 // optional, rejects the move if the task changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 412 - Precondition Failed
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  reorder: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{externalID}/reorder",
+        tags: ["task"],
+        summary: "Reorder a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      stageID: z.string().uuid().optional(),
+      afterID: z.string().uuid().optional(),
+      override: z.boolean().default(false),
+      version: expectedVersionSchema,
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const before = await getAccessibleTask(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(before, input.version);
+        const stageID = input.stageID ?? before.stageExternalID;
+        if (stageID !== before.stageExternalID) {
+          const stage = await getAccessibleStage(ctx, input.boardID, stageID);
+          await enforceWipLimit(ctx, input.boardID, stage, input.override);
+        }
+        const rank = await placeTask(ctx, input.boardID, stageID, input.externalID, input.afterID);
+        const { count } = await ctx.prisma.task.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            rank,
+            stageExternalID: stageID,
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        const task = await ctx.prisma.task.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: taskInclude,
+        });
+        if (count === 0) {
+          throw versionConflict(formatTask(task));
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: task.externalID,
+          action: ActivityAction.MOVE,
+          before,
+          after: task,
+        });
+        await recordTransition(ctx.prisma, task.externalID, before.stageExternalID, task.stageExternalID);
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a task
+   * @link /api/board/{boardID}/task/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("task.delete", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    version: 3 // optional, rejects the deletion if the task changed since this version was read
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 409 - Conflict
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/task/{externalID}",
+        tags: ["task"],
+        summary: "Delete a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      version: expectedVersionSchema,
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const task = await getAccessibleTask(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        assertVersion(task, input.version);
+        const { count } = await ctx.prisma.task.updateMany({
+          where: {
+            externalID: input.externalID,
+            ...versionFilter(input.version),
+          },
+          data: {
+            deleted: true,
+            deletedAt: new Date(),
+            version: {
+              increment: 1,
+            },
+          },
+        });
+        if (count === 0) {
+          throw versionConflict(formatTask(await ctx.prisma.task.findUniqueOrThrow({
+            where: {
+              externalID: input.externalID,
+            },
+            include: taskInclude,
+          })));
+        }
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: task.externalID,
+          action: ActivityAction.DELETE,
+          before: task,
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for restoring a deleted task from the trash
+   * @link /api/board/{boardID}/task/{externalID}/restore
+   * @method POST
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.restore", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 412 - Precondition Failed
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  restore: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/task/{externalID}/restore",
+        tags: ["task"],
+        summary: "Restore a deleted task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.EDITOR);
+        const deleted = await ctx.prisma.task.findFirst({
+          where: {
+            externalID: input.externalID,
+            deleted: true,
+            stage: {
+              boardExternalID: input.boardID,
+            },
+          },
+          include: {
+            stage: true,
+          },
+        });
+        if (!deleted) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Task not found",
+          });
+        }
+        if (deleted.stage.deleted) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Restore the stage of this task first",
+          });
+        }
+        await assertWipLimit(ctx.prisma, deleted.stage);
+        const task = await ctx.prisma.task.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            deleted: false,
+            deletedAt: null,
+            version: {
+              increment: 1,
+            },
+          },
+          include: taskInclude,
+        });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: input.boardID,
+          entity: ActivityEntity.TASK,
+          entityID: task.externalID,
+          action: ActivityAction.RESTORE,
+          after: task,
+        });
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for assigning a board member to a task, assigning an already assigned user is a no-op
+   * @link /api/board/{boardID}/task/{externalID}/assignee/{userID}
+   * @method PUT
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.assign", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    userID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  assign: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PUT",
+        path: "/board/{boardID}/task/{externalID}/assignee/{userID}",
+        tags: ["task"],
+        summary: "Assign a user to a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      userID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        const member = await ctx.prisma.boardMember.findFirst({
+          where: {
+            boardExternalID: input.boardID,
+            userExternalID: input.userID,
+            user: {
+              deleted: false,
+            },
+          },
+        });
+        if (!member) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only members of the board can be assigned",
+          });
+        }
+        const before = await taskAssigneeIDs(ctx, input.externalID);
+        if (!before.includes(input.userID)) {
+          await ctx.prisma.taskAssignee.create({
+            data: {
+              task: {
+                connect: {
+                  externalID: input.externalID,
+                },
+              },
+              user: {
+                connect: {
+                  externalID: input.userID,
+                },
+              },
+            },
+          });
+          await bumpTaskVersion(ctx.prisma, input.externalID);
+          await recordActivity(ctx.prisma, {
+            actorID: ctx.user.externalID,
+            boardID: input.boardID,
+            entity: ActivityEntity.TASK,
+            entityID: input.externalID,
+            action: ActivityAction.UPDATE,
+            before: { assigneeExternalIDs: before },
+            after: { assigneeExternalIDs: [...before, input.userID] },
+          });
+        }
+        const task = await ctx.prisma.task.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: taskInclude,
+        });
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for unassigning a user from a task, unassigning a user that is not assigned is a no-op
+   * @link /api/board/{boardID}/task/{externalID}/assignee/{userID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * const { task } = await trpc.mutation("task.unassign", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    userID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Task} Task
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  unassign: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/task/{externalID}/assignee/{userID}",
+        tags: ["task"],
+        summary: "Unassign a user from a task",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      userID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        task: taskSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleTask(ctx, input.boardID, input.externalID, BoardRole.EDITOR);
+        const before = await taskAssigneeIDs(ctx, input.externalID);
+        if (before.includes(input.userID)) {
+          await ctx.prisma.taskAssignee.delete({
+            where: {
+              taskExternalID_userExternalID: {
+                taskExternalID: input.externalID,
+                userExternalID: input.userID,
+              },
+            },
+          });
+          await bumpTaskVersion(ctx.prisma, input.externalID);
+          await recordActivity(ctx.prisma, {
+            actorID: ctx.user.externalID,
+            boardID: input.boardID,
+            entity: ActivityEntity.TASK,
+            entityID: input.externalID,
+            action: ActivityAction.UPDATE,
+            before: { assigneeExternalIDs: before },
+            after: { assigneeExternalIDs: before.filter((userID) => userID !== input.userID) },
+          });
+        }
+        const task = await ctx.prisma.task.findUniqueOrThrow({
+          where: {
+            externalID: input.externalID,
+          },
+          include: taskInclude,
+        });
+
+        return {
+          task: formatTask(task),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -0,0 +1,350 @@
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, Prisma } from "@prisma/client";
+import { AccessContext, getAccessibleBoard } from "../utils/access";
+import { recordActivity } from "../utils/activity";
+import { exportInclude, KanbexDocument, kanbexDocumentSchema, toKanbexDocument } from "../utils/export";
+import { importBoard, IMPORT_TRANSACTION_OPTIONS } from "../utils/import";
+import { BUILT_IN_TEMPLATES, shiftDueDates, withoutTasks } from "../utils/template";
+
+const templateSchema = z.object({
+  externalID: z.string().uuid(),
+  name: z.string(),
+  description: z.string(),
+  builtIn: z.boolean(),
+  stages: z.array(z.string()),
+  labels: z.array(z.object({
+    name: z.string(),
+    color: z.string(),
+  })),
+  taskCount: z.number(),
+  createdAt: z.date().nullable(),
+});
+
+/**
+ * Summarizes a template for listings, the full document is only read when instantiating
+ */
+const formatTemplate = (
+  template: { externalID: string; name: string; description: string; createdAt?: Date },
+  document: KanbexDocument,
+) => ({
+  externalID: template.externalID,
+  name: template.name,
+  description: template.description,
+  builtIn: !template.createdAt,
+  stages: document.board.stages.map((stage) => stage.title),
+  labels: document.board.labels,
+  taskCount: document.board.stages.reduce((count, stage) => count + stage.tasks.length, 0),
+  createdAt: template.createdAt ?? null,
+});
+
+/**
+ * Fetches a built-in template or one saved by the current user, along with its parsed document
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getTemplate = async (ctx: AccessContext, templateID: string) => {
+  const builtIn = BUILT_IN_TEMPLATES.find((template) => template.externalID === templateID);
+  if (builtIn) {
+    return { template: builtIn, document: builtIn.document };
+  }
+  const template = await ctx.prisma.boardTemplate.findFirst({
+    where: {
+      externalID: templateID,
+      userExternalID: ctx.user.externalID,
+    },
+  });
+  if (!template) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Template not found",
+    });
+  }
+  return { template, document: kanbexDocumentSchema.parse(template.content) };
+};
+
+/**
+ * Router handling board template procedures, templates are private to the user who saved them
+ * @link /api/template
+ */
+export const templateRouter = router({
+  /**
+   * Procedure for getting the built-in templates along with the ones saved by the current user
+   * @link /api/template
+   * @method GET
+   * @example
+   * ```ts
+   * const { templates } = await trpc.query("template.list", {})
+   * ```
+   * @returns {BoardTemplate[]} List of templates
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/template",
+        tags: ["template"],
+        summary: "Get all templates",
+      },
+    })
+    .input(z.object({}))
+    .output(
+      z.object({
+        templates: z.array(templateSchema),
+      })
+    )
+    .query(async ({ ctx }) => {
+      try {
+        const templates = await ctx.prisma.boardTemplate.findMany({
+          where: {
+            userExternalID: ctx.user.externalID,
+          },
+          orderBy: {
+            name: "asc",
+          },
+        });
+
+        return {
+          templates: [
+            ...BUILT_IN_TEMPLATES.map((template) => formatTemplate(template, template.document)),
+            ...templates.map((template) => formatTemplate(template, kanbexDocumentSchema.parse(template.content))),
+          ],
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for saving the stages and labels of a board as a template, optionally with its tasks. Templates
+   * are held to the bounds of imported documents, since creating a board from them imports them.
+   * @link /api/template
+   * @method POST
+   * @example
+   * ```ts
+   * const { template } = await trpc.mutation("template.create", {
+   *  input: {
+   *    boardID: "uuid",
+   *    name: "Release checklist",
+   *    description: "Stages and tasks of a release",
+   *    includeTasks: true
+   *  }
+   * })
+   * ```
+   * @returns {BoardTemplate} Template
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/template",
+        tags: ["template"],
+        summary: "Create a template from a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      name: z.string().min(1),
+      description: z.string().optional(),
+      includeTasks: z.boolean().default(false),
+    }))
+    .output(
+      z.object({
+        template: templateSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID);
+        const board = await ctx.prisma.board.findUniqueOrThrow({
+          where: {
+            externalID: input.boardID,
+          },
+          include: exportInclude,
+        });
+        const { exportedAt, ...document } = toKanbexDocument(board);
+        const content = input.includeTasks ? document : withoutTasks(document);
+        if (!kanbexDocumentSchema.safeParse(content).success) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Board is too large to save as a template",
+          });
+        }
+        const template = await ctx.prisma.boardTemplate.create({
+          data: {
+            name: input.name,
+            description: input.description || "",
+            // Dates are stored as ISO strings and coerced back when the template is read
+            content: JSON.parse(JSON.stringify(content)) as Prisma.InputJsonObject,
+            createdBy: {
+              connect: {
+                externalID: ctx.user.externalID,
+              },
+            },
+          },
+        });
+
+        return {
+          template: formatTemplate(template, content),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a saved template, built-in templates cannot be deleted
+   * @link /api/template/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("template.delete", {
+   *  input: {
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/template/{externalID}",
+        tags: ["template"],
+        summary: "Delete a template",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { template } = await getTemplate(ctx, input.externalID);
+        if (!("createdAt" in template)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Built-in templates cannot be deleted",
+          });
+        }
+        await ctx.prisma.boardTemplate.delete({
+          where: {
+            externalID: input.externalID,
+          },
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a board from a template, the due dates of its tasks are shifted so the
+   * earliest one falls on `startDate`
+   * @link /api/template/{externalID}/instantiate
+   * @method POST
+   * @example
+   * ```ts
+   * const { board } = await trpc.mutation("template.instantiate", {
+   *  input: {
+   *    externalID: "uuid",
+   *    title: "Release 2.0",
+   *    startDate: new Date() // optional, defaults to now
+   *  }
+   * })
+   * ```
+   * @returns {Board} Board
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  instantiate: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/template/{externalID}/instantiate",
+        tags: ["template"],
+        summary: "Create a board from a template",
+      },
+    })
+    .input(z.object({
+      externalID: z.string().uuid(),
+      title: z.string().min(1),
+      description: z.string().optional(),
+      startDate: z.coerce.date().optional(),
+    }))
+    .output(
+      z.object({
+        board: z.object({
+          externalID: z.string().uuid(),
+          title: z.string(),
+          description: z.string(),
+          version: z.number().int(),
+          createdBy: z.object({
+            externalID: z.string().uuid(),
+            username: z.string(),
+          }),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { template, document } = await getTemplate(ctx, input.externalID);
+        const instance = shiftDueDates(document, input.startDate ?? new Date());
+        const board = await ctx.prisma.$transaction((tx) => importBoard(tx, ctx.user.externalID, {
+          ...instance,
+          board: {
+            ...instance.board,
+            title: input.title,
+            description: input.description ?? template.description,
+          },
+        }), IMPORT_TRANSACTION_OPTIONS);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: board.externalID,
+          entity: ActivityEntity.BOARD,
+          entityID: board.externalID,
+          action: ActivityAction.CREATE,
+          after: board,
+        });
+
+        return {
+          board,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
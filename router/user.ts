@@ -1,8 +1,17 @@
 import z from "zod";
 import bcrypt from "bcrypt";
 
-import { protectedProcedure, router } from "../trpc";
+import { protectedProcedure, router, sessionProcedure } from "../trpc";
 import { TRPCError } from "@trpc/server";
+import { ActivityAction, ActivityEntity, BoardRole } from "@prisma/client";
+import { activitySchema, formatActivity, recordActivity } from "../utils/activity";
+import { assigneeSchema, formatTaskAssignees, taskAssigneeInclude } from "../utils/assignee";
+import { checklistProgressInclude, checklistProgressSchema, formatChecklistProgress } from "../utils/checklist";
+import { blockerInclude, formatBlocked } from "../utils/dependency";
+import { formatTaskLabels, labelSchema, taskLabelInclude } from "../utils/label";
+import { revokeAccessTokens } from "../utils/accessToken";
+import { revokeSessions } from "../utils/session";
+import { purgeDate } from "../utils/trash";
 
 /**
  * Router handling all authenticated user related procedures
@@ -37,6 +46,7 @@ export const userRouter = router({
           username: z.string(),
           name: z.string(),
           email: z.string(),
+          emailVerified: z.boolean(),
         }),
       })
     )
@@ -47,12 +57,14 @@ export const userRouter = router({
           username: ctx.user.username,
           name: ctx.user.name,
           email: ctx.user.email,
+          emailVerified: ctx.user.emailVerifiedAt !== null,
         },
       };
     }
   ),
   /**
-   * Procedure for updating the current user
+   * Procedure for updating the current user. Changing the password signs out every other session and revokes
+   * every personal access token.
    * @link /api/user/{externalID}
    * @method PATCH
    * @example
@@ -67,11 +79,12 @@ export const userRouter = router({
    * ```
    * @returns {User} Partial User
    * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
    * @throws {TRPCError} 500 - Internal Server Error
    * @throws {TRPCError} 400 - Bad Request
    * @throws {TRPCError} 404 - Not Found
     */
-  updateUser: protectedProcedure
+  updateUser: sessionProcedure
     .meta({
       openapi: {
         method: "PATCH",
@@ -120,8 +133,24 @@ export const userRouter = router({
             name: input.name,
             email: input.email,
             password: input.password,
+            // A new email address has to be verified again
+            emailVerifiedAt: input.email && input.email !== existingUser.email ? null : undefined,
           },
         });
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: null,
+          entity: ActivityEntity.USER,
+          entityID: ctx.user.externalID,
+          action: ActivityAction.UPDATE,
+          before: existingUser,
+          after: updatedUser,
+        });
+        if (input.password) {
+          // Changing the password signs out every other session and revokes every personal access token
+          await revokeSessions(ctx.prisma, ctx.user.externalID, ctx.session.externalID);
+          await revokeAccessTokens(ctx.prisma, ctx.user.externalID);
+        }
         return {
           user: {
             externalID: updatedUser.externalID,
@@ -149,8 +178,9 @@ export const userRouter = router({
    * ```
    * @returns 204 - No Content
    * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
    */
-  deleteUser: protectedProcedure
+  deleteUser: sessionProcedure
     .meta({
       openapi: {
         method: "DELETE",
@@ -171,8 +201,18 @@ export const userRouter = router({
           },
           data: {
             deleted: true,
+            deletedAt: new Date(),
           },
         });
+        await revokeSessions(ctx.prisma, ctx.user.externalID);
+        await recordActivity(ctx.prisma, {
+          actorID: ctx.user.externalID,
+          boardID: null,
+          entity: ActivityEntity.USER,
+          entityID: ctx.user.externalID,
+          action: ActivityAction.DELETE,
+          before: ctx.user,
+        });
         return {};
       } catch (error) {
         console.error(error);
@@ -183,5 +223,349 @@ export const userRouter = router({
       }
     }
   ),
+  /**
+   * Procedure for getting the activity feed of the current user: everything that happened on
+   * their boards along with changes to their own account, newest first
+   * @link /api/user/me/activity
+   * @method GET
+   * @example
+   * ```ts
+   * const { activities } = await trpc.query("user.activity", {
+   *  input: {
+   *    limit: 20,
+   *    offset: 0
+   *  }
+   * })
+   * ```
+   * @returns {Activity[]} List of activities
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  activity: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/user/me/activity",
+        tags: ["user"],
+        summary: "Get the activity feed of the current user",
+      },
+    })
+    .input(z.object({
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    }))
+    .output(
+      z.object({
+        activities: z.array(activitySchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const activities = await ctx.prisma.activity.findMany({
+          where: {
+            OR: [
+              {
+                board: {
+                  deleted: false,
+                  BoardMember: {
+                    some: {
+                      userExternalID: ctx.user.externalID,
+                    },
+                  },
+                },
+              },
+              {
+                entity: ActivityEntity.USER,
+                entityExternalID: ctx.user.externalID,
+              },
+            ],
+          },
+          include: {
+            actor: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+          take: input.limit,
+          skip: input.offset,
+        });
+
+        return {
+          activities: activities.map(formatActivity),
+        };
+      } catch (error) {
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the tasks assigned to the current user across all of their boards
+   * @link /api/user/me/task
+   * @method GET
+   * @example
+   * ```ts
+   * const { tasks } = await trpc.query("user.myTasks", {
+   *  input: {
+   *    sortBy: "dueDate",
+   *    order: "asc",
+   *    limit: 20,
+   *    offset: 0
+   *  }
+   * })
+   * ```
+   * @returns {Task[]} List of tasks
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  myTasks: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/user/me/task",
+        tags: ["user"],
+        summary: "Get the tasks assigned to the current user",
+      },
+    })
+    .input(z.object({
+      sortBy: z.enum(["dueDate", "priority"]).default("dueDate"),
+      order: z.enum(["asc", "desc"]).default("asc"),
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    }))
+    .output(
+      z.object({
+        tasks: z.array(
+          z.object({
+            externalID: z.string().uuid(),
+            title: z.string(),
+            description: z.string(),
+            version: z.number().int(),
+            priority: z.number().int(),
+            dueDate: z.date(),
+            board: z.object({
+              externalID: z.string().uuid(),
+              title: z.string(),
+            }),
+            stage: z.object({
+              externalID: z.string().uuid(),
+              title: z.string(),
+            }),
+            labels: z.array(labelSchema),
+            assignees: z.array(assigneeSchema),
+            checklist: checklistProgressSchema,
+            isBlocked: z.boolean(),
+            createdAt: z.date(),
+            updatedAt: z.date(),
+          })
+        ),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const tasks = await ctx.prisma.task.findMany({
+          where: {
+            deleted: false,
+            TaskAssignee: {
+              some: {
+                userExternalID: ctx.user.externalID,
+              },
+            },
+            stage: {
+              deleted: false,
+              board: {
+                deleted: false,
+                BoardMember: {
+                  some: {
+                    userExternalID: ctx.user.externalID,
+                  },
+                },
+              },
+            },
+          },
+          include: {
+            stage: {
+              include: {
+                board: true,
+              },
+            },
+            ...taskLabelInclude,
+            ...taskAssigneeInclude,
+            ...checklistProgressInclude,
+            ...blockerInclude,
+          },
+          orderBy: [
+            { [input.sortBy]: input.order },
+            { createdAt: "asc" },
+          ],
+          take: input.limit,
+          skip: input.offset,
+        });
+
+        return {
+          tasks: tasks.map((task) => ({
+            ...formatBlocked(
+              formatChecklistProgress(formatTaskAssignees(formatTaskLabels(task))),
+              task.stage.board.doneStageExternalID,
+            ),
+            board: task.stage.board,
+          })),
+        };
+      } catch (error) {
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the trash of the current user: deleted boards they own along with deleted stages
+   * and tasks of boards they can edit, most recently deleted first. Stages and tasks of a deleted board are
+   * only listed through their board.
+   * @link /api/user/me/trash
+   * @method GET
+   * @example
+   * ```ts
+   * const { items } = await trpc.query("user.trash", {
+   *  input: {
+   *    limit: 20,
+   *    offset: 0
+   *  }
+   * })
+   * ```
+   * @returns {TrashItem[]} List of deleted boards, stages and tasks with the date they will be purged
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  trash: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/user/me/trash",
+        tags: ["user"],
+        summary: "Get the trash of the current user",
+      },
+    })
+    .input(z.object({
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    }))
+    .output(
+      z.object({
+        items: z.array(
+          z.object({
+            type: z.enum(["board", "stage", "task"]),
+            externalID: z.string().uuid(),
+            title: z.string(),
+            boardExternalID: z.string().uuid(),
+            stageExternalID: z.string().uuid().nullable(),
+            deletedAt: z.date(),
+            purgeAt: z.date(),
+          })
+        ),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const editableBoard = {
+          deleted: false,
+          BoardMember: {
+            some: {
+              userExternalID: ctx.user.externalID,
+              role: {
+                in: [BoardRole.EDITOR, BoardRole.OWNER],
+              },
+            },
+          },
+        };
+        const take = input.offset + input.limit;
+        const orderBy = [
+          { deletedAt: "desc" as const },
+          { updatedAt: "desc" as const },
+        ];
+        const [boards, stages, tasks] = await ctx.prisma.$transaction([
+          ctx.prisma.board.findMany({
+            where: {
+              deleted: true,
+              BoardMember: {
+                some: {
+                  userExternalID: ctx.user.externalID,
+                  role: BoardRole.OWNER,
+                },
+              },
+            },
+            orderBy,
+            take,
+          }),
+          ctx.prisma.stage.findMany({
+            where: {
+              deleted: true,
+              board: editableBoard,
+            },
+            orderBy,
+            take,
+          }),
+          ctx.prisma.task.findMany({
+            where: {
+              deleted: true,
+              stage: {
+                deleted: false,
+                board: editableBoard,
+              },
+            },
+            include: {
+              stage: true,
+            },
+            orderBy,
+            take,
+          }),
+        ]);
+        // Records deleted before `deletedAt` existed fall back to their last update
+        const items = [
+          ...boards.map((board) => ({
+            type: "board" as const,
+            externalID: board.externalID,
+            title: board.title,
+            boardExternalID: board.externalID,
+            stageExternalID: null,
+            deletedAt: board.deletedAt ?? board.updatedAt,
+          })),
+          ...stages.map((stage) => ({
+            type: "stage" as const,
+            externalID: stage.externalID,
+            title: stage.title,
+            boardExternalID: stage.boardExternalID,
+            stageExternalID: null,
+            deletedAt: stage.deletedAt ?? stage.updatedAt,
+          })),
+          ...tasks.map((task) => ({
+            type: "task" as const,
+            externalID: task.externalID,
+            title: task.title,
+            boardExternalID: task.stage.boardExternalID,
+            stageExternalID: task.stageExternalID,
+            deletedAt: task.deletedAt ?? task.updatedAt,
+          })),
+        ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+        return {
+          items: items.slice(input.offset, take).map((item) => ({
+            ...item,
+            purgeAt: purgeDate(item.deletedAt),
+          })),
+        };
+      } catch (error) {
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
 });
-  
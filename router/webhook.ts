@@ -0,0 +1,483 @@
+import crypto from "crypto";
+import z from "zod";
+import { protectedProcedure, router } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { BoardRole, WebhookDeliveryStatus } from "@prisma/client";
+import { AccessContext, getAccessibleBoard } from "../utils/access";
+import { enqueueDeliveries, isAllowedWebhookURL, PING_EVENT, WEBHOOK_EVENTS } from "../utils/webhook";
+
+/**
+ * Refinements still run once `.url()` has failed, so parsing must not throw on strings that are not URLs
+ */
+const isHTTPURL = (url: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const urlSchema = z.string().url().max(2048)
+  .refine(isHTTPURL, "URL must use http or https")
+  .refine(isAllowedWebhookURL, "URL must resolve to a public address");
+
+const secretSchema = z.string().min(16).max(191);
+
+const eventsSchema = z.array(z.enum(WEBHOOK_EVENTS));
+
+const webhookSchema = z.object({
+  externalID: z.string().uuid(),
+  url: z.string(),
+  events: z.array(z.string()),
+  active: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const deliverySchema = z.object({
+  externalID: z.string().uuid(),
+  event: z.string(),
+  payload: z.record(z.unknown()),
+  status: z.nativeEnum(WebhookDeliveryStatus),
+  attempts: z.number(),
+  nextAttemptAt: z.date().nullable(),
+  responseStatus: z.number().nullable(),
+  error: z.string().nullable(),
+  deliveredAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+/**
+ * Leaves the secret out of a webhook, it is only shown when created or changed
+ */
+const formatWebhook = <T extends { secret: string; events: unknown }>({ secret, ...webhook }: T) => ({
+  ...webhook,
+  events: webhook.events as string[],
+});
+
+/**
+ * Fetches a webhook of a board
+ * @throws {TRPCError} 404 - Not Found
+ */
+const getWebhook = async (ctx: AccessContext, boardID: string, webhookID: string) => {
+  const webhook = await ctx.prisma.webhook.findFirst({
+    where: {
+      externalID: webhookID,
+      boardExternalID: boardID,
+    },
+  });
+  if (!webhook) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Webhook not found",
+    });
+  }
+  return webhook;
+};
+
+/**
+ * Router handling the outgoing webhooks of a board, only board owners can manage them
+ * @link /api/board/{boardID}/webhook
+ */
+export const webhookRouter = router({
+  /**
+   * Procedure for getting all webhooks of a board
+   * @link /api/board/{boardID}/webhook
+   * @method GET
+   * @example
+   * ```ts
+   * const { webhooks } = await trpc.query("webhook.list", {
+   *  input: {
+   *    boardID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns {Webhook[]} List of webhooks
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  list: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/webhook",
+        tags: ["webhook"],
+        summary: "Get all webhooks of a board",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+    }))
+    .output(
+      z.object({
+        webhooks: z.array(webhookSchema),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        const webhooks = await ctx.prisma.webhook.findMany({
+          where: {
+            boardExternalID: input.boardID,
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        });
+
+        return {
+          webhooks: webhooks.map(formatWebhook),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for creating a webhook on a board. A webhook without events receives all of them and a secret is
+   * generated when none is given.
+   * @link /api/board/{boardID}/webhook
+   * @method POST
+   * @example
+   * ```ts
+   * const { webhook, secret } = await trpc.mutation("webhook.create", {
+   *  input: {
+   *    boardID: "uuid",
+   *    url: "https://example.com/hooks/kanbex",
+   *    events: ["task.created", "task.moved"]
+   *  }
+   * })
+   * ```
+   * @returns {Webhook} Webhook and its secret
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  create: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/webhook",
+        tags: ["webhook"],
+        summary: "Create a webhook",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      url: urlSchema,
+      secret: secretSchema.optional(),
+      events: eventsSchema.default([]),
+    }))
+    .output(
+      z.object({
+        webhook: webhookSchema,
+        secret: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        const webhook = await ctx.prisma.webhook.create({
+          data: {
+            url: input.url,
+            secret: input.secret ?? crypto.randomBytes(32).toString("hex"),
+            events: input.events,
+            board: {
+              connect: {
+                externalID: input.boardID,
+              },
+            },
+          },
+        });
+
+        return {
+          webhook: formatWebhook(webhook),
+          secret: webhook.secret,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for updating a webhook, disabled webhooks stop receiving events and their pending deliveries fail
+   * @link /api/board/{boardID}/webhook/{externalID}
+   * @method PATCH
+   * @example
+   * ```ts
+   * const { webhook } = await trpc.mutation("webhook.update", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    active: false
+   *  }
+   * })
+   * ```
+   * @returns {Webhook} Webhook
+   * @throws {TRPCError} 400 - Bad Request
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  update: protectedProcedure
+    .meta({
+      openapi: {
+        method: "PATCH",
+        path: "/board/{boardID}/webhook/{externalID}",
+        tags: ["webhook"],
+        summary: "Update a webhook",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      url: urlSchema.optional(),
+      secret: secretSchema.optional(),
+      events: eventsSchema.optional(),
+      active: z.boolean().optional(),
+    }))
+    .output(
+      z.object({
+        webhook: webhookSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        await getWebhook(ctx, input.boardID, input.externalID);
+        const webhook = await ctx.prisma.webhook.update({
+          where: {
+            externalID: input.externalID,
+          },
+          data: {
+            url: input.url,
+            secret: input.secret,
+            events: input.events,
+            active: input.active,
+          },
+        });
+
+        return {
+          webhook: formatWebhook(webhook),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for deleting a webhook along with its delivery log
+   * @link /api/board/{boardID}/webhook/{externalID}
+   * @method DELETE
+   * @example
+   * ```ts
+   * await trpc.mutation("webhook.delete", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  delete: protectedProcedure
+    .meta({
+      openapi: {
+        method: "DELETE",
+        path: "/board/{boardID}/webhook/{externalID}",
+        tags: ["webhook"],
+        summary: "Delete a webhook",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        await getWebhook(ctx, input.boardID, input.externalID);
+        await ctx.prisma.$transaction([
+          ctx.prisma.webhookDelivery.deleteMany({
+            where: {
+              webhookExternalID: input.externalID,
+            },
+          }),
+          ctx.prisma.webhook.delete({
+            where: {
+              externalID: input.externalID,
+            },
+          }),
+        ]);
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for sending a `ping` event to a webhook, useful to check a receiver is reachable and verifies
+   * signatures
+   * @link /api/board/{boardID}/webhook/{externalID}/ping
+   * @method POST
+   * @example
+   * ```ts
+   * await trpc.mutation("webhook.ping", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid"
+   *  }
+   * })
+   * ```
+   * @returns 200 - OK
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  ping: protectedProcedure
+    .meta({
+      openapi: {
+        method: "POST",
+        path: "/board/{boardID}/webhook/{externalID}/ping",
+        tags: ["webhook"],
+        summary: "Ping a webhook",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+    }))
+    .output(z.object({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        const webhook = await getWebhook(ctx, input.boardID, input.externalID);
+        await enqueueDeliveries(ctx.prisma, [webhook], PING_EVENT, {
+          event: PING_EVENT,
+          boardID: input.boardID,
+          webhookID: webhook.externalID,
+          createdAt: new Date().toISOString(),
+        });
+        return {};
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+  /**
+   * Procedure for getting the delivery log of a webhook, most recent deliveries first
+   * @link /api/board/{boardID}/webhook/{externalID}/delivery
+   * @method GET
+   * @example
+   * ```ts
+   * const { deliveries, nextCursor } = await trpc.query("webhook.deliveries", {
+   *  input: {
+   *    boardID: "uuid",
+   *    externalID: "uuid",
+   *    status: "FAILED",
+   *    limit: 20,
+   *    cursor: "uuid" // nextCursor of the previous page
+   *  }
+   * })
+   * ```
+   * @returns {WebhookDelivery[]} Page of deliveries and the cursor of the next page
+   * @throws {TRPCError} 401 - Unauthorized
+   * @throws {TRPCError} 403 - Forbidden
+   * @throws {TRPCError} 404 - Not Found
+   * @throws {TRPCError} 500 - Internal Server Error
+   */
+  deliveries: protectedProcedure
+    .meta({
+      openapi: {
+        method: "GET",
+        path: "/board/{boardID}/webhook/{externalID}/delivery",
+        tags: ["webhook"],
+        summary: "Get the delivery log of a webhook",
+      },
+    })
+    .input(z.object({
+      boardID: z.string().uuid(),
+      externalID: z.string().uuid(),
+      status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+      limit: z.number().min(1).max(100).default(20),
+      cursor: z.string().uuid().optional(),
+    }))
+    .output(
+      z.object({
+        deliveries: z.array(deliverySchema),
+        nextCursor: z.string().uuid().nullable(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await getAccessibleBoard(ctx, input.boardID, BoardRole.OWNER);
+        await getWebhook(ctx, input.boardID, input.externalID);
+        const deliveries = await ctx.prisma.webhookDelivery.findMany({
+          where: {
+            webhookExternalID: input.externalID,
+            status: input.status,
+          },
+          orderBy: [
+            { createdAt: "desc" },
+            { externalID: "desc" },
+          ],
+          cursor: input.cursor ? { externalID: input.cursor } : undefined,
+          skip: input.cursor ? 1 : 0,
+          take: input.limit + 1,
+        });
+        const page = deliveries.slice(0, input.limit);
+
+        return {
+          deliveries: page.map((delivery) => ({
+            ...delivery,
+            payload: delivery.payload as Record<string, unknown>,
+          })),
+          nextCursor: deliveries.length > input.limit ? page[page.length - 1].externalID : null,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error(error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Something went wrong",
+        });
+      }
+    }
+  ),
+});
@@ -13,6 +13,11 @@ import { OpenApiMeta } from 'trpc-openapi';
 import { transformer } from './utils/transformer';
 import { ZodError } from 'zod';
 import { Context } from './context';
+import { AccessToken, AccessTokenScope, UserRole } from '@prisma/client';
+import { WipLimitError } from './utils/wip';
+import { VersionConflictError } from './utils/version';
+import { env } from './env';
+import { RateLimitError, RateLimitOptions, getClientIP, hitRateLimit } from './utils/rateLimit';
 
 /**
  * This is where the tRPC API is initialized, connecting the context and transformer. We also parse
@@ -33,6 +38,13 @@ const t = initTRPC.meta<OpenApiMeta>().context<Context>().create({
       data: {
         ...shape.data,
         zodError: error.cause instanceof ZodError ? error.cause.flatten() : null,
+        wipLimit: error.cause instanceof WipLimitError ? {
+          stageID: error.cause.stageID,
+          count: error.cause.count,
+          limit: error.cause.limit,
+        } : null,
+        retryAfter: error.cause instanceof RateLimitError ? error.cause.retryAfter : null,
+        current: error.cause instanceof VersionConflictError ? error.cause.current : null,
       }
     }
   },
@@ -50,10 +62,37 @@ export const router = t.router;
  **/
 export const publicProcedure = t.procedure;
 
-const isAuthorized = t.middleware(({ ctx, next }) => {
-  if (!ctx.user) {
+/**
+ * Limits how often a procedure can be called per window, counted per client IP or per user. Each procedure
+ * has its own counters and anonymous callers are always counted per IP.
+ * @see https://trpc.io/docs/v10/middlewares
+ */
+export const rateLimit = (options: RateLimitOptions & { by: "ip" | "user" }) => t.middleware(async ({ ctx, path, next }) => {
+  const client = options.by === "user" && ctx.user ? `user:${ctx.user.externalID}` : `ip:${getClientIP(ctx.req)}`;
+  await hitRateLimit(`${path}:${client}`, options);
+  return next();
+});
+
+const userRateLimit = rateLimit({
+  by: "user",
+  max: env.RATE_LIMIT_USER_MAX,
+  windowSeconds: env.RATE_LIMIT_WINDOW_SECONDS,
+});
+
+/**
+ * Rejects mutations made with a read-only personal access token
+ */
+const assertScope = (accessToken: AccessToken | null, type: string) => {
+  if (accessToken?.scope === AccessTokenScope.READ && type === "mutation") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Access token is read-only" })
+  }
+};
+
+const isAuthorized = t.middleware(({ ctx, type, next }) => {
+  if (!ctx.user || (!ctx.session && !ctx.accessToken)) {
     throw new TRPCError({ code: "UNAUTHORIZED"})
   }
+  assertScope(ctx.accessToken, type);
   return next({
     ctx: {
       ...ctx,
@@ -61,7 +100,51 @@ const isAuthorized = t.middleware(({ ctx, next }) => {
     } 
   });
 });
-export const protectedProcedure = t.procedure.use(isAuthorized);
+export const protectedProcedure = t.procedure.use(isAuthorized).use(userRateLimit);
+
+/**
+ * Procedures managing the account itself (credentials, sessions, access tokens) require signing in with a
+ * password, personal access tokens are not enough
+ */
+const hasSession = t.middleware(({ ctx, next }) => {
+  if (!ctx.user || (!ctx.session && !ctx.accessToken)) {
+    throw new TRPCError({ code: "UNAUTHORIZED"})
+  }
+  if (!ctx.session) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Requires signing in with a password" })
+  }
+  return next({
+    ctx: {
+      ...ctx,
+      user: ctx.user,
+      session: ctx.session,
+    }
+  });
+});
+export const sessionProcedure = t.procedure.use(hasSession).use(userRateLimit);
+
+/**
+ * Administration manages other accounts, so like managing one's own it requires signing in with a password
+ */
+const isAdmin = t.middleware(({ ctx, next }) => {
+  if (!ctx.user || (!ctx.session && !ctx.accessToken)) {
+    throw new TRPCError({ code: "UNAUTHORIZED"})
+  }
+  if (ctx.user.role !== UserRole.ADMIN) {
+    throw new TRPCError({ code: "FORBIDDEN"})
+  }
+  if (!ctx.session) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Requires signing in with a password" })
+  }
+  return next({
+    ctx: {
+      ...ctx,
+      user: ctx.user,
+      session: ctx.session,
+    }
+  });
+});
+export const adminProcedure = t.procedure.use(isAdmin).use(userRateLimit);
 
 /**
  * @see https://trpc.io/docs/v10/middlewares
@@ -0,0 +1,163 @@
+import { BoardRole, PrismaClient, User } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+export interface AccessContext {
+  prisma: PrismaClient;
+  user: User;
+}
+
+const ROLE_WEIGHT: Record<BoardRole, number> = {
+  [BoardRole.VIEWER]: 0,
+  [BoardRole.EDITOR]: 1,
+  [BoardRole.OWNER]: 2,
+};
+
+/**
+ * Fetches a board the current user is a member of, along with their role on it
+ * @param role minimum role the user must hold on the board
+ * @throws {TRPCError} 403 - Forbidden
+ * @throws {TRPCError} 404 - Not Found
+ */
+export const getAccessibleBoard = async (ctx: AccessContext, boardID: string, role: BoardRole = BoardRole.VIEWER) => {
+  const membership = await ctx.prisma.boardMember.findFirst({
+    where: {
+      boardExternalID: boardID,
+      userExternalID: ctx.user.externalID,
+      board: {
+        deleted: false,
+      },
+    },
+    include: {
+      board: true,
+    },
+  });
+  if (!membership) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Board not found",
+    });
+  }
+  if (ROLE_WEIGHT[membership.role] < ROLE_WEIGHT[role]) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Requires ${role} role on this board`,
+    });
+  }
+  return {
+    ...membership.board,
+    role: membership.role,
+  };
+};
+
+/**
+ * Tells whether the current user is still active and a member of a live board. Subscriptions check it again
+ * for every event, as their context was resolved once, when they started.
+ */
+export const isBoardMember = async (ctx: AccessContext, boardID: string) => {
+  const count = await ctx.prisma.boardMember.count({
+    where: {
+      boardExternalID: boardID,
+      userExternalID: ctx.user.externalID,
+      board: {
+        deleted: false,
+      },
+      user: {
+        deleted: false,
+      },
+    },
+  });
+  return count > 0;
+};
+
+/**
+ * Fetches a stage of a board the current user has access to
+ * @param role minimum role the user must hold on the board
+ * @throws {TRPCError} 403 - Forbidden
+ * @throws {TRPCError} 404 - Not Found
+ */
+export const getAccessibleStage = async (
+  ctx: AccessContext,
+  boardID: string,
+  stageID: string,
+  role: BoardRole = BoardRole.VIEWER,
+) => {
+  await getAccessibleBoard(ctx, boardID, role);
+  const stage = await ctx.prisma.stage.findFirst({
+    where: {
+      externalID: stageID,
+      boardExternalID: boardID,
+      deleted: false,
+    },
+  });
+  if (!stage) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Stage not found",
+    });
+  }
+  return stage;
+};
+
+/**
+ * Fetches a task of a board the current user has access to
+ * @param role minimum role the user must hold on the board
+ * @throws {TRPCError} 403 - Forbidden
+ * @throws {TRPCError} 404 - Not Found
+ */
+export const getAccessibleTask = async (
+  ctx: AccessContext,
+  boardID: string,
+  taskID: string,
+  role: BoardRole = BoardRole.VIEWER,
+) => {
+  await getAccessibleBoard(ctx, boardID, role);
+  const task = await ctx.prisma.task.findFirst({
+    where: {
+      externalID: taskID,
+      deleted: false,
+      stage: {
+        boardExternalID: boardID,
+        deleted: false,
+      },
+    },
+  });
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Task not found",
+    });
+  }
+  return task;
+};
+
+/**
+ * Gives the creator of every board without members an OWNER membership. Boards created before memberships
+ * existed have none, so their creators would otherwise lose access to them. Boards with members are left
+ * alone, so it is safe to run on every start.
+ * @returns {number} Number of memberships created
+ */
+export const backfillBoardOwners = async (prisma: PrismaClient) => {
+  const boards = await prisma.board.findMany({
+    where: {
+      BoardMember: {
+        none: {},
+      },
+    },
+    select: {
+      externalID: true,
+      userExternalID: true,
+    },
+  });
+  if (boards.length === 0) {
+    return 0;
+  }
+  const { count } = await prisma.boardMember.createMany({
+    data: boards.map((board) => ({
+      boardExternalID: board.externalID,
+      userExternalID: board.userExternalID,
+      role: BoardRole.OWNER,
+    })),
+    skipDuplicates: true,
+  });
+  return count;
+};
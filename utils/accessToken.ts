@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+
+import { hashToken } from "./session";
+
+/**
+ * Prefix of personal access tokens, telling them apart from JWTs in the `Authorization` header
+ */
+export const ACCESS_TOKEN_PREFIX = "kbx_";
+
+const LAST_USED_PRECISION = 60 * 1000;
+
+/**
+ * Generates a new personal access token
+ * @returns {string} Raw token and its hash, only the hash is stored
+ */
+export const generateAccessToken = () => {
+  const token = `${ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashToken(token) };
+};
+
+/**
+ * Resolves a personal access token to itself and its user. Tokens that are unknown, revoked, expired or
+ * belong to a deleted user resolve to null.
+ */
+export const authenticateAccessToken = async (prisma: PrismaClient, token: string) => {
+  const accessToken = await prisma.accessToken.findFirst({
+    where: {
+      tokenHash: hashToken(token),
+      revoked: false,
+      OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } },
+      ],
+      user: {
+        deleted: false,
+      },
+    },
+    include: {
+      user: true,
+    },
+  });
+  if (!accessToken) {
+    return null;
+  }
+  // Recorded to the minute so scripts making many calls do not write on every one of them
+  const now = new Date();
+  if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_PRECISION) {
+    await prisma.accessToken.update({
+      where: {
+        externalID: accessToken.externalID,
+      },
+      data: {
+        lastUsedAt: now,
+      },
+    });
+  }
+  const { user, ...rest } = accessToken;
+  return { user, accessToken: rest };
+};
+
+/**
+ * Revokes every personal access token of a user, so tokens made with a leaked password stop working once it
+ * changes
+ */
+export const revokeAccessTokens = async (prisma: PrismaClient, userID: string) => {
+  await prisma.accessToken.updateMany({
+    where: {
+      userExternalID: userID,
+      revoked: false,
+    },
+    data: {
+      revoked: true,
+    },
+  });
+};
@@ -0,0 +1,116 @@
+import { ActivityAction, ActivityEntity, Prisma, PrismaClient } from "@prisma/client";
+import z from "zod";
+
+import { publishBoardEvent } from "./events";
+import { enqueueWebhookDeliveries } from "./webhook";
+
+/**
+ * Fields captured in the before/after diff of each entity, anything else (relations, secrets,
+ * timestamps) is left out of the log
+ */
+const TRACKED_FIELDS: Record<ActivityEntity, string[]> = {
+  [ActivityEntity.USER]: ["name", "email", "role"],
+  [ActivityEntity.BOARD]: ["title", "description", "doneStageExternalID"],
+  [ActivityEntity.MEMBER]: ["userExternalID", "role"],
+  [ActivityEntity.STAGE]: ["title", "description", "rank", "wipLimit"],
+  [ActivityEntity.TASK]: ["title", "description", "priority", "dueDate", "rank", "stageExternalID", "labelExternalIDs", "assigneeExternalIDs", "blockerExternalIDs"],
+  [ActivityEntity.COMMENT]: ["body", "taskExternalID"],
+  [ActivityEntity.LABEL]: ["name", "color"],
+  [ActivityEntity.CHECKLIST_ITEM]: ["text", "done", "rank", "taskExternalID"],
+};
+
+type Snapshot = Record<string, unknown>;
+
+interface ActivityInput {
+  actorID: string;
+  boardID: string | null;
+  entity: ActivityEntity;
+  entityID: string;
+  action: ActivityAction;
+  before?: object | null;
+  after?: object | null;
+}
+
+const pick = (entity: ActivityEntity, record: object) => {
+  const snapshot: Snapshot = {};
+  for (const field of TRACKED_FIELDS[entity]) {
+    if (field in record) {
+      const value = (record as Snapshot)[field];
+      snapshot[field] = value instanceof Date ? value.toISOString() : value;
+    }
+  }
+  return snapshot;
+};
+
+/**
+ * Reduces two snapshots to the fields that differ between them
+ */
+const diff = (before: Snapshot, after: Snapshot) => {
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const field of Object.keys(after)) {
+    if (before[field] !== after[field]) {
+      changedBefore[field] = before[field];
+      changedAfter[field] = after[field];
+    }
+  }
+  return [changedBefore, changedAfter];
+};
+
+/**
+ * Appends an entry to the activity log, publishes it to the subscribers of its board and queues it for its webhooks.
+ * Creations only keep `after`, deletions only keep `before` and every other action keeps the fields that changed.
+ */
+export const recordActivity = async (prisma: PrismaClient, input: ActivityInput) => {
+  let before = input.before ? pick(input.entity, input.before) : undefined;
+  let after = input.after ? pick(input.entity, input.after) : undefined;
+  if (before && after) {
+    [before, after] = diff(before, after);
+  }
+  const activity = await prisma.activity.create({
+    data: {
+      entity: input.entity,
+      entityExternalID: input.entityID,
+      action: input.action,
+      before: before as Prisma.InputJsonObject | undefined,
+      after: after as Prisma.InputJsonObject | undefined,
+      actor: {
+        connect: {
+          externalID: input.actorID,
+        },
+      },
+      board: input.boardID ? {
+        connect: {
+          externalID: input.boardID,
+        },
+      } : undefined,
+    },
+  });
+  publishBoardEvent(activity);
+  // The change itself already happened, a failure to queue its deliveries must not fail the request
+  await enqueueWebhookDeliveries(prisma, activity).catch(console.error);
+};
+
+export const activitySchema = z.object({
+  externalID: z.string().uuid(),
+  actor: z.object({
+    externalID: z.string().uuid(),
+    username: z.string(),
+  }),
+  boardExternalID: z.string().uuid().nullable(),
+  entity: z.nativeEnum(ActivityEntity),
+  entityExternalID: z.string().uuid(),
+  action: z.nativeEnum(ActivityAction),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  createdAt: z.date(),
+});
+
+/**
+ * Narrows the stored JSON diff of an activity to the shape of `activitySchema`
+ */
+export const formatActivity = <T extends { before: Prisma.JsonValue; after: Prisma.JsonValue }>(activity: T) => ({
+  ...activity,
+  before: activity.before as Snapshot | null,
+  after: activity.after as Snapshot | null,
+});
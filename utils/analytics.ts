@@ -0,0 +1,219 @@
+import { PrismaClient } from "@prisma/client";
+import z from "zod";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+export const durationStatsSchema = z.object({
+  count: z.number(),
+  average: z.number().nullable(),
+  p50: z.number().nullable(),
+  p85: z.number().nullable(),
+  p95: z.number().nullable(),
+});
+
+/**
+ * Stage a task entered and when it entered it, null once the task is deleted
+ */
+export interface Visit {
+  stageID: string | null;
+  at: Date;
+}
+
+interface TimelineTask {
+  createdAt: Date;
+  stageExternalID: string;
+  deleted: boolean;
+  deletedAt: Date | null;
+  TaskTransition: {
+    fromStageExternalID: string;
+    toStageExternalID: string;
+    createdAt: Date;
+  }[];
+}
+
+/**
+ * Records a task moving from one stage to another, moves within the same stage are not transitions
+ */
+export const recordTransition = async (prisma: PrismaClient, taskID: string, fromStageID: string, toStageID: string) => {
+  if (fromStageID === toStageID) {
+    return;
+  }
+  await prisma.taskTransition.create({
+    data: {
+      fromStageExternalID: fromStageID,
+      toStageExternalID: toStageID,
+      task: {
+        connect: {
+          externalID: taskID,
+        },
+      },
+    },
+  });
+};
+
+/**
+ * Rebuilds the stages a task went through from its transitions, oldest first, ending with its deletion if it
+ * was deleted. Creating a task is not a transition, so the first visit is derived from the task itself. When
+ * only the transitions from some point on are given, the first visit holds the stage the task was in then.
+ */
+export const taskTimeline = (task: TimelineTask): Visit[] => [
+  {
+    stageID: task.TaskTransition[0]?.fromStageExternalID ?? task.stageExternalID,
+    at: task.createdAt,
+  },
+  ...task.TaskTransition.map((transition) => ({
+    stageID: transition.toStageExternalID,
+    at: transition.createdAt,
+  })),
+  ...task.deleted && task.deletedAt ? [{ stageID: null, at: task.deletedAt }] : [],
+];
+
+/**
+ * Finds the stage a task was in at a point in time, null when it did not exist yet or anymore
+ */
+export const stageAt = (timeline: Visit[], at: Date) => {
+  let stageID: string | null = null;
+  for (const visit of timeline) {
+    if (visit.at > at) {
+      break;
+    }
+    stageID = visit.stageID;
+  }
+  return stageID;
+};
+
+/**
+ * Cuts a timeline at a point in time, so moves made later do not undo what had happened by then. The task must
+ * exist by then.
+ */
+export const timelineUntil = (timeline: Visit[], at: Date) => timeline.filter((visit) => visit.at <= at);
+
+/**
+ * Tells when a task was completed, which is when it last entered the done stage if it is still there. Use it
+ * on a timeline cut with `timelineUntil` to tell whether it was completed at some point in time.
+ */
+export const completedAt = (timeline: Visit[], doneStageID: string) => {
+  const last = timeline[timeline.length - 1];
+  return last.stageID === doneStageID ? last.at : null;
+};
+
+/**
+ * Tells when work on a task started, which is when it first left the stage it was created in. Tasks created
+ * straight into the done stage start when they are completed.
+ */
+export const startedAt = (timeline: Visit[]) => timeline[Math.min(1, timeline.length - 1)].at;
+
+/**
+ * Converts a duration to hours, rounded to the hundredth
+ */
+export const toHours = (milliseconds: number) => Math.round(milliseconds / HOUR * 100) / 100;
+
+/**
+ * Computes a percentile by linear interpolation between the closest ranks
+ */
+const percentile = (sorted: number[], rank: number) => {
+  const index = (sorted.length - 1) * rank;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+/**
+ * Summarizes durations given in hours with the percentiles commonly used to forecast kanban delivery
+ */
+export const durationStats = (hours: number[]) => {
+  if (hours.length === 0) {
+    return { count: 0, average: null, p50: null, p85: null, p95: null };
+  }
+  const sorted = [...hours].sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    count: sorted.length,
+    average: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: round(percentile(sorted, 0.5)),
+    p85: round(percentile(sorted, 0.85)),
+    p95: round(percentile(sorted, 0.95)),
+  };
+};
+
+/**
+ * Collects how long each visit of a stage lasted, for the visits that ended within a date range
+ * @returns {Map} Durations in hours by stage ID
+ */
+export const stageDurations = (timelines: Visit[][], from: Date, to: Date) => {
+  const durations = new Map<string, number[]>();
+  for (const timeline of timelines) {
+    for (let i = 0; i < timeline.length - 1; i++) {
+      const end = timeline[i + 1].at;
+      if (end < from || end > to) {
+        continue;
+      }
+      const stageID = timeline[i].stageID;
+      if (stageID === null) {
+        continue;
+      }
+      durations.set(stageID, [...durations.get(stageID) ?? [], toHours(end.getTime() - timeline[i].at.getTime())]);
+    }
+  }
+  return durations;
+};
+
+/**
+ * Truncates a date to midnight UTC
+ */
+export const startOfDay = (date: Date) => new Date(Math.floor(date.getTime() / DAY) * DAY);
+
+/**
+ * Truncates a date to midnight UTC of the Monday starting its week
+ */
+export const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY);
+};
+
+/**
+ * Counts the tasks completed in each week of a date range, weeks without completions included
+ */
+export const weeklyThroughput = (completions: Date[], from: Date, to: Date) => {
+  const weeks: { weekStart: Date; count: number }[] = [];
+  for (let week = startOfWeek(from); week <= to; week = new Date(week.getTime() + WEEK)) {
+    const end = week.getTime() + WEEK;
+    weeks.push({
+      weekStart: week,
+      count: completions.filter((date) => date >= from && date <= to && date.getTime() >= week.getTime() && date.getTime() < end).length,
+    });
+  }
+  return weeks;
+};
+
+/**
+ * Counts the tasks in each stage at the end of every day of a date range, which is what a cumulative flow
+ * diagram stacks. Tasks that stayed in the same stage for the whole range are passed as a count per stage
+ * rather than as timelines.
+ */
+export const cumulativeFlow = (
+  timelines: Visit[][],
+  stageIDs: string[],
+  from: Date,
+  to: Date,
+  unmoved = new Map<string, number>(),
+) => {
+  const days: { date: Date; stages: { stageExternalID: string; count: number }[] }[] = [];
+  for (let day = startOfDay(from); day <= to; day = new Date(day.getTime() + DAY)) {
+    const end = new Date(Math.min(day.getTime() + DAY - 1, to.getTime()));
+    const counts = new Map<string, number>(stageIDs.map((stageID) => [stageID, unmoved.get(stageID) ?? 0]));
+    for (const timeline of timelines) {
+      const stageID = stageAt(timeline, end);
+      if (stageID !== null && counts.has(stageID)) {
+        counts.set(stageID, (counts.get(stageID) ?? 0) + 1);
+      }
+    }
+    days.push({
+      date: day,
+      stages: stageIDs.map((stageID) => ({ stageExternalID: stageID, count: counts.get(stageID) ?? 0 })),
+    });
+  }
+  return days;
+};
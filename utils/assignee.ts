@@ -0,0 +1,25 @@
+import z from "zod";
+
+export const assigneeSchema = z.object({
+  externalID: z.string().uuid(),
+  username: z.string(),
+});
+
+export const taskAssigneeInclude = {
+  TaskAssignee: {
+    include: {
+      user: true,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  },
+} as const;
+
+/**
+ * Flattens the assignee join rows of a task into the assigned users
+ */
+export const formatTaskAssignees = <T extends { TaskAssignee: { user: { externalID: string; username: string } }[] }>(task: T) => ({
+  ...task,
+  assignees: task.TaskAssignee.map((assignee) => assignee.user),
+});
@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import { Board, PrismaClient, Stage, Task } from "@prisma/client";
+
+import { env } from "../env";
+import { hashToken } from "./session";
+
+/**
+ * Public URL of a calendar feed, calendar apps poll it without any other credentials
+ */
+export const calendarFeedURL = (token: string) => `${env.APP_URL}/calendar/${token}.ics`;
+
+/**
+ * Issues the feed token of a user for one board, or for every board they are a member of when `boardID` is null.
+ * The previous token of the same feed stops working.
+ * @returns {string} Raw token, only its hash is stored
+ */
+export const issueCalendarFeed = async (prisma: PrismaClient, userID: string, boardID: string | null) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await prisma.$transaction([
+    prisma.calendarFeed.deleteMany({
+      where: {
+        userExternalID: userID,
+        boardExternalID: boardID,
+      },
+    }),
+    prisma.calendarFeed.create({
+      data: {
+        tokenHash: hashToken(token),
+        user: {
+          connect: {
+            externalID: userID,
+          },
+        },
+        ...(boardID && {
+          board: {
+            connect: {
+              externalID: boardID,
+            },
+          },
+        }),
+      },
+    }),
+  ]);
+  return token;
+};
+
+/**
+ * Resolves a feed token to its title and the tasks it lists. Tokens that are unknown, belong to a deleted user
+ * or to a board the user no longer has access to resolve to null.
+ */
+export const getCalendarFeed = async (prisma: PrismaClient, token: string) => {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: {
+      tokenHash: hashToken(token),
+    },
+    include: {
+      user: true,
+      board: true,
+    },
+  });
+  if (!feed || feed.user.deleted) {
+    return null;
+  }
+  const board = {
+    deleted: false,
+    BoardMember: {
+      some: {
+        userExternalID: feed.userExternalID,
+      },
+    },
+  };
+  if (feed.board && await prisma.board.count({ where: { ...board, externalID: feed.board.externalID } }) === 0) {
+    return null;
+  }
+  const tasks = await prisma.task.findMany({
+    where: {
+      deleted: false,
+      stage: {
+        deleted: false,
+        board: {
+          ...board,
+          ...(feed.boardExternalID && { externalID: feed.boardExternalID }),
+        },
+      },
+    },
+    include: {
+      stage: {
+        include: {
+          board: true,
+        },
+      },
+    },
+    orderBy: {
+      dueDate: "asc",
+    },
+  });
+  return {
+    title: feed.board ? feed.board.title : `${feed.user.name}'s tasks`,
+    tasks,
+  };
+};
+
+/**
+ * Escapes a TEXT value as required by RFC 5545
+ */
+const escapeText = (value: string) => value
+  .replace(/\\/g, "\\\\")
+  .replace(/;/g, "\\;")
+  .replace(/,/g, "\\,")
+  .replace(/\r?\n/g, "\\n");
+
+/**
+ * Formats a date as a UTC DATE-TIME, e.g. 20240131T090000Z
+ */
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Splits a content line into lines of at most 75 octets, continuation lines start with a space
+ */
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+};
+
+/**
+ * Renders tasks as an iCalendar document with one event at the due date of each task. The UID of an event is
+ * derived from the ID of its task, so calendar apps update events in place instead of duplicating them.
+ */
+export const toICalendar = (title: string, tasks: (Task & { stage: Stage & { board: Board } })[]) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Kanbex//Kanbex//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(title)}`,
+    ...tasks.flatMap((task) => [
+      "BEGIN:VEVENT",
+      `UID:${task.externalID}@kanbex`,
+      `DTSTAMP:${formatDateTime(task.updatedAt)}`,
+      `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+      `DTSTART:${formatDateTime(task.dueDate)}`,
+      `SUMMARY:${escapeText(task.title)}`,
+      `DESCRIPTION:${escapeText(task.description)}`,
+      `CATEGORIES:${escapeText(task.stage.board.title)},${escapeText(task.stage.title)}`,
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,28 @@
+import z from "zod";
+
+export const checklistProgressSchema = z.object({
+  done: z.number(),
+  total: z.number(),
+});
+
+/**
+ * Loads just enough of the checklist of a task to count its progress
+ */
+export const checklistProgressInclude = {
+  ChecklistItem: {
+    select: {
+      done: true,
+    },
+  },
+} as const;
+
+/**
+ * Replaces the checklist rows of a task with its completion counts, e.g. 3 of 5 items done
+ */
+export const formatChecklistProgress = <T extends { ChecklistItem: { done: boolean }[] }>(task: T) => ({
+  ...task,
+  checklist: {
+    done: task.ChecklistItem.filter((item) => item.done).length,
+    total: task.ChecklistItem.length,
+  },
+});
@@ -0,0 +1,79 @@
+import { PrismaClient } from "@prisma/client";
+
+/**
+ * Loads the stage of every live task blocking a task, which is all `isBlocked` needs
+ */
+export const blockerInclude = {
+  BlockedBy: {
+    where: {
+      blocker: {
+        deleted: false,
+        stage: {
+          deleted: false,
+        },
+      },
+    },
+    select: {
+      blocker: {
+        select: {
+          stageExternalID: true,
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * A task is finished once it sits in the done stage of its board, boards without a done stage have no
+ * finished tasks
+ */
+export const isFinished = (task: { stageExternalID: string }, doneStageID: string | null) =>
+  doneStageID !== null && task.stageExternalID === doneStageID;
+
+/**
+ * Replaces the blocker rows of a task with whether any of them is still unfinished
+ */
+export const formatBlocked = <T extends { BlockedBy: { blocker: { stageExternalID: string } }[] }>(
+  task: T,
+  doneStageID: string | null,
+) => ({
+  ...task,
+  isBlocked: task.BlockedBy.some((dependency) => !isFinished(dependency.blocker, doneStageID)),
+});
+
+/**
+ * Tells whether making `blockerID` block `blockedID` would close a cycle, which is the case when
+ * `blockedID` already blocks `blockerID` directly or through other tasks of the board
+ */
+export const createsCycle = async (prisma: PrismaClient, boardID: string, blockerID: string, blockedID: string) => {
+  if (blockerID === blockedID) {
+    return true;
+  }
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      blocker: {
+        stage: {
+          boardExternalID: boardID,
+        },
+      },
+    },
+  });
+  const blocks = new Map<string, string[]>();
+  for (const dependency of dependencies) {
+    blocks.set(dependency.blockerExternalID, [...blocks.get(dependency.blockerExternalID) ?? [], dependency.blockedExternalID]);
+  }
+  const visited = new Set<string>();
+  const queue = [blockedID];
+  while (queue.length > 0) {
+    const taskID = queue.shift() as string;
+    if (taskID === blockerID) {
+      return true;
+    }
+    if (visited.has(taskID)) {
+      continue;
+    }
+    visited.add(taskID);
+    queue.push(...blocks.get(taskID) ?? []);
+  }
+  return false;
+};
@@ -0,0 +1,44 @@
+import { EventEmitter } from "events";
+import { Activity } from "@prisma/client";
+
+/**
+ * Change on a board, streamed to `board.onChange` subscribers
+ */
+export type BoardEvent = Activity & {
+  type: string;
+};
+
+const emitter = new EventEmitter();
+// One listener per open subscription, so the default cap of 10 does not apply
+emitter.setMaxListeners(0);
+
+/**
+ * Names the event of an activity, e.g. "task.moved", "stage.deleted"
+ */
+export const eventType = (activity: Pick<Activity, "entity" | "action">) =>
+  `${activity.entity.toLowerCase()}.${activity.action.toLowerCase().replace(/e?$/, "ed")}`;
+
+/**
+ * Publishes an activity to every subscriber of its board
+ */
+export const publishBoardEvent = (activity: Activity) => {
+  if (!activity.boardExternalID) {
+    return;
+  }
+  const event: BoardEvent = {
+    ...activity,
+    type: eventType(activity),
+  };
+  emitter.emit(activity.boardExternalID, event);
+};
+
+/**
+ * Listens to the events of a board
+ * @returns {Function} Unsubscribe callback
+ */
+export const subscribeBoardEvents = (boardID: string, listener: (event: BoardEvent) => void) => {
+  emitter.on(boardID, listener);
+  return () => {
+    emitter.off(boardID, listener);
+  };
+};
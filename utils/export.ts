@@ -0,0 +1,157 @@
+import z from "zod";
+import { ChecklistItem, Label, Prisma, Stage, Task, User } from "@prisma/client";
+
+import { taskLabelInclude } from "./label";
+
+/**
+ * Version of the Kanbex JSON document, bump it whenever the shape below changes. Version 2 added stage WIP
+ * limits and version 3 task checklists, which older documents simply lack, so those are still accepted.
+ */
+export const KANBEX_FORMAT_VERSION = 3;
+
+export const kanbexDocumentSchema = z.object({
+  format: z.literal("kanbex"),
+  version: z.number().int().min(1).max(KANBEX_FORMAT_VERSION),
+  exportedAt: z.coerce.date().optional(),
+  board: z.object({
+    title: z.string().min(1),
+    description: z.string().default(""),
+    labels: z.array(z.object({
+      name: z.string().min(1).max(50),
+      color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+    })).max(100).default([]),
+    stages: z.array(z.object({
+      title: z.string().min(1),
+      description: z.string().default(""),
+      wipLimit: z.number().int().positive().nullable().default(null),
+      tasks: z.array(z.object({
+        title: z.string().min(1),
+        description: z.string().default(""),
+        priority: z.number().int().default(0),
+        dueDate: z.coerce.date(),
+        labels: z.array(z.string()).max(100).default([]),
+        checklist: z.array(z.object({
+          text: z.string().min(1),
+          done: z.boolean().default(false),
+        })).max(100).default([]),
+      })).max(500).default([]),
+    })).max(50).default([]),
+  }),
+});
+
+export type KanbexDocument = z.infer<typeof kanbexDocumentSchema>;
+
+/**
+ * Loads everything a board export needs: labels, live stages and their live tasks in rank order
+ */
+export const exportInclude = {
+  Label: {
+    orderBy: {
+      name: "asc",
+    },
+  },
+  Stage: {
+    where: {
+      deleted: false,
+    },
+    include: {
+      Task: {
+        where: {
+          deleted: false,
+        },
+        include: {
+          createdBy: true,
+          ...taskLabelInclude,
+          ChecklistItem: {
+            orderBy: [
+              { rank: "asc" },
+              { createdAt: "asc" },
+            ],
+          },
+        },
+        orderBy: [
+          { rank: "asc" },
+          { createdAt: "asc" },
+        ],
+      },
+    },
+    orderBy: [
+      { rank: "asc" },
+      { createdAt: "asc" },
+    ],
+  },
+} satisfies Prisma.BoardInclude;
+
+type ExportedTask = Task & { createdBy: User; TaskLabel: { label: Label }[]; ChecklistItem: ChecklistItem[] };
+type ExportedBoard = {
+  title: string;
+  description: string;
+  Label: Label[];
+  Stage: (Stage & { Task: ExportedTask[] })[];
+};
+
+/**
+ * Serializes a board with its labels, stages and tasks, in rank order
+ */
+export const toKanbexDocument = (board: ExportedBoard): KanbexDocument => ({
+  format: "kanbex",
+  version: KANBEX_FORMAT_VERSION,
+  exportedAt: new Date(),
+  board: {
+    title: board.title,
+    description: board.description,
+    labels: board.Label.map((label) => ({
+      name: label.name,
+      color: label.color,
+    })),
+    stages: board.Stage.map((stage) => ({
+      title: stage.title,
+      description: stage.description,
+      wipLimit: stage.wipLimit,
+      tasks: stage.Task.map((task) => ({
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        dueDate: task.dueDate,
+        labels: task.TaskLabel.map((taskLabel) => taskLabel.label.name),
+        checklist: task.ChecklistItem.map((item) => ({
+          text: item.text,
+          done: item.done,
+        })),
+      })),
+    })),
+  },
+});
+
+const CSV_COLUMNS = ["stage", "title", "description", "priority", "dueDate", "labels", "createdBy", "createdAt"];
+
+/**
+ * Prefixes with `'` the text spreadsheets would otherwise evaluate as a formula, numbers are left as they are
+ */
+const neutralizeFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) && !/^[+-]?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+/**
+ * Quotes a CSV field when needed (RFC 4180), after neutralizing formulas
+ */
+const csvField = (raw: string) => {
+  const value = neutralizeFormula(raw);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Flattens the tasks of a board into CSV rows, one per task, labels are joined with `;`
+ */
+export const toTaskCsv = (board: ExportedBoard) => {
+  const rows = board.Stage.flatMap((stage) => stage.Task.map((task) => [
+    stage.title,
+    task.title,
+    task.description,
+    String(task.priority),
+    task.dueDate.toISOString(),
+    task.TaskLabel.map((taskLabel) => taskLabel.label.name).join(";"),
+    task.createdBy.username,
+    task.createdAt.toISOString(),
+  ]));
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+};
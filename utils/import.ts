@@ -0,0 +1,272 @@
+import z from "zod";
+import { BoardRole, Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { KANBEX_FORMAT_VERSION, KanbexDocument } from "./export";
+import { rankBetween } from "./rank";
+
+/**
+ * The subset of a Trello board export ("Export as JSON") that maps onto a board
+ */
+export const trelloExportSchema = z.object({
+  name: z.string().min(1),
+  desc: z.string().default(""),
+  labels: z.array(z.object({
+    id: z.string(),
+    name: z.string().default(""),
+    color: z.string().nullable().default(null),
+  })).max(100).default([]),
+  lists: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    closed: z.boolean().default(false),
+    pos: z.number().default(0),
+  })).max(200),
+  cards: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    desc: z.string().default(""),
+    idList: z.string(),
+    idLabels: z.array(z.string()).max(100).default([]),
+    closed: z.boolean().default(false),
+    due: z.coerce.date().nullable().default(null),
+    pos: z.number().default(0),
+  })).max(5000).default([]),
+  checklists: z.array(z.object({
+    idCard: z.string(),
+    pos: z.number().default(0),
+    checkItems: z.array(z.object({
+      name: z.string().min(1),
+      state: z.enum(["complete", "incomplete"]).default("incomplete"),
+      pos: z.number().default(0),
+    })).max(100).default([]),
+  })).max(5000).default([]),
+});
+
+/**
+ * Hex values of the Trello label palette, shade variants (`green_dark`) fall back to their base color
+ */
+const TRELLO_COLORS: Record<string, string> = {
+  green: "#61bd4f",
+  yellow: "#f2d600",
+  orange: "#ff9f1a",
+  red: "#eb5a46",
+  purple: "#c377e0",
+  blue: "#0079bf",
+  sky: "#00c2e0",
+  lime: "#51e898",
+  pink: "#ff78cb",
+  black: "#344563",
+};
+const DEFAULT_LABEL_COLOR = "#b3bac5";
+
+/**
+ * Label names are unique per board regardless of case, as the database collation compares them
+ */
+const labelKey = (name: string) => name.toLowerCase();
+
+/**
+ * Converts a Trello export to a Kanbex document: open lists become stages and open cards become tasks.
+ * Cards without a due date are due at the time of the import since tasks always carry one.
+ */
+export const fromTrello = (trello: z.infer<typeof trelloExportSchema>): KanbexDocument => {
+  const labelNames = new Map<string, string>();
+  const labels: KanbexDocument["board"]["labels"] = [];
+  for (const label of trello.labels) {
+    const base = label.name.trim() || label.color || "label";
+    let name = base.slice(0, 50);
+    for (let i = 2; labels.some((existing) => labelKey(existing.name) === labelKey(name)); i++) {
+      name = `${base.slice(0, 45)} (${i})`;
+    }
+    labelNames.set(label.id, name);
+    labels.push({
+      name,
+      color: TRELLO_COLORS[label.color?.split("_")[0] ?? ""] ?? DEFAULT_LABEL_COLOR,
+    });
+  }
+  const importedAt = new Date();
+  const byPosition = (a: { pos: number }, b: { pos: number }) => a.pos - b.pos;
+
+  return {
+    format: "kanbex",
+    version: KANBEX_FORMAT_VERSION,
+    board: {
+      title: trello.name,
+      description: trello.desc,
+      labels,
+      stages: trello.lists.filter((list) => !list.closed).sort(byPosition).map((list) => ({
+        title: list.name,
+        description: "",
+        wipLimit: null,
+        tasks: trello.cards.filter((card) => card.idList === list.id && !card.closed).sort(byPosition).map((card) => ({
+          title: card.name,
+          description: card.desc,
+          priority: 0,
+          dueDate: card.due ?? importedAt,
+          labels: card.idLabels.flatMap((labelID) => labelNames.get(labelID) ?? []),
+          // Trello cards can hold several checklists, they are merged into the single checklist of the task
+          checklist: trello.checklists.filter((checklist) => checklist.idCard === card.id).sort(byPosition)
+            .flatMap((checklist) => [...checklist.checkItems].sort(byPosition).map((item) => ({
+              text: item.name,
+              done: item.state === "complete",
+            }))),
+        })),
+      })),
+    },
+  };
+};
+
+/**
+ * Checks the references inside a document that zod cannot express
+ * @throws {TRPCError} 400 - Bad Request
+ */
+const validateDocument = (document: KanbexDocument) => {
+  const labelNames = new Set<string>();
+  for (const label of document.board.labels) {
+    if (labelNames.has(labelKey(label.name))) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Label "${label.name}" is defined more than once`,
+      });
+    }
+    labelNames.add(labelKey(label.name));
+  }
+  for (const task of document.board.stages.flatMap((stage) => stage.tasks)) {
+    const unknown = task.labels.find((name) => !labelNames.has(labelKey(name)));
+    if (unknown !== undefined) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Task "${task.title}" uses the undefined label "${unknown}"`,
+      });
+    }
+    const repeated = task.labels.find((name, i) =>
+      task.labels.slice(0, i).some((other) => labelKey(other) === labelKey(name)));
+    if (repeated !== undefined) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Task "${task.title}" uses the label "${repeated}" more than once`,
+      });
+    }
+  }
+};
+
+/**
+ * Options of the transaction running `importBoard`, large documents take longer than the 5 seconds Prisma
+ * gives interactive transactions by default
+ */
+export const IMPORT_TRANSACTION_OPTIONS = {
+  maxWait: 10_000,
+  timeout: 60_000,
+};
+
+/**
+ * Recreates a board from a document, owned by the importing user. Meant to run inside a transaction
+ * so a failing import leaves nothing behind.
+ * @throws {TRPCError} 400 - Bad Request
+ */
+export const importBoard = async (tx: Prisma.TransactionClient, userID: string, document: KanbexDocument) => {
+  validateDocument(document);
+  const board = await tx.board.create({
+    data: {
+      title: document.board.title,
+      description: document.board.description,
+      createdBy: {
+        connect: {
+          externalID: userID,
+        },
+      },
+      BoardMember: {
+        create: {
+          role: BoardRole.OWNER,
+          user: {
+            connect: {
+              externalID: userID,
+            },
+          },
+        },
+      },
+    },
+    include: {
+      createdBy: true,
+    },
+  });
+
+  const labelIDs = new Map<string, string>();
+  for (const label of document.board.labels) {
+    const created = await tx.label.create({
+      data: {
+        name: label.name,
+        color: label.color.toLowerCase(),
+        board: {
+          connect: {
+            externalID: board.externalID,
+          },
+        },
+      },
+    });
+    labelIDs.set(labelKey(label.name), created.externalID);
+  }
+
+  let stageRank: string | null = null;
+  for (const stage of document.board.stages) {
+    stageRank = rankBetween(stageRank, null);
+    let taskRank: string | null = null;
+    await tx.stage.create({
+      data: {
+        title: stage.title,
+        description: stage.description,
+        rank: stageRank,
+        wipLimit: stage.wipLimit,
+        board: {
+          connect: {
+            externalID: board.externalID,
+          },
+        },
+        createdBy: {
+          connect: {
+            externalID: userID,
+          },
+        },
+        Task: {
+          create: stage.tasks.map((task) => {
+            taskRank = rankBetween(taskRank, null);
+            let itemRank: string | null = null;
+            return {
+              title: task.title,
+              description: task.description,
+              priority: task.priority,
+              dueDate: task.dueDate,
+              rank: taskRank,
+              createdBy: {
+                connect: {
+                  externalID: userID,
+                },
+              },
+              TaskLabel: {
+                create: task.labels.map((name) => ({
+                  label: {
+                    connect: {
+                      externalID: labelIDs.get(labelKey(name)),
+                    },
+                  },
+                })),
+              },
+              ChecklistItem: {
+                create: task.checklist.map((item) => {
+                  itemRank = rankBetween(itemRank, null);
+                  return {
+                    text: item.text,
+                    done: item.done,
+                    rank: itemRank,
+                  };
+                }),
+              },
+            };
+          }),
+        },
+      },
+    });
+  }
+
+  return board;
+};
@@ -0,0 +1,45 @@
+import z from "zod";
+import { Prisma } from "@prisma/client";
+
+export const labelSchema = z.object({
+  externalID: z.string().uuid(),
+  name: z.string(),
+  color: z.string(),
+});
+
+/**
+ * Accepts label IDs either as an array or, for query strings, as a comma separated list
+ */
+export const labelIDsSchema = z.preprocess(
+  (value) => typeof value === "string" ? value.split(",").filter(Boolean) : value,
+  z.array(z.string().uuid())
+);
+
+export const taskLabelInclude = {
+  TaskLabel: {
+    include: {
+      label: true,
+    },
+  },
+} as const;
+
+/**
+ * Restricts tasks to the ones carrying at least one of the given labels, no filter when omitted
+ */
+export const labelFilter = (labelIDs?: string[]): Prisma.TaskWhereInput => labelIDs?.length ? {
+  TaskLabel: {
+    some: {
+      labelExternalID: {
+        in: labelIDs,
+      },
+    },
+  },
+} : {};
+
+/**
+ * Flattens the label join rows of a task into its labels
+ */
+export const formatTaskLabels = <T extends { TaskLabel: { label: { externalID: string; name: string; color: string } }[] }>(task: T) => ({
+  ...task,
+  labels: task.TaskLabel.map((taskLabel) => taskLabel.label),
+});
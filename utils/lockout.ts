@@ -0,0 +1,63 @@
+import { PrismaClient, User } from "@prisma/client";
+
+import { env } from "../env";
+import { tooManyRequests } from "./rateLimit";
+
+/**
+ * Rejects logins into an account that is locked after too many failed attempts, before the password is even
+ * compared
+ * @throws {TRPCError} 429 - Too Many Requests
+ */
+export const assertNotLocked = (user: User) => {
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    const retryAfter = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000);
+    throw tooManyRequests(retryAfter, "Account is temporarily locked after too many failed logins");
+  }
+};
+
+/**
+ * Counts a failed login and locks the account once `LOGIN_LOCKOUT_THRESHOLD` is reached. Every further
+ * failure doubles the lockout, up to `LOGIN_LOCKOUT_MAX_SECONDS`.
+ */
+export const recordFailedLogin = async (prisma: PrismaClient, user: User) => {
+  const { failedLogins } = await prisma.user.update({
+    where: {
+      externalID: user.externalID,
+    },
+    data: {
+      failedLogins: {
+        increment: 1,
+      },
+    },
+  });
+  if (failedLogins < env.LOGIN_LOCKOUT_THRESHOLD) {
+    return;
+  }
+  const seconds = Math.min(
+    env.LOGIN_LOCKOUT_BASE_SECONDS * 2 ** (failedLogins - env.LOGIN_LOCKOUT_THRESHOLD),
+    env.LOGIN_LOCKOUT_MAX_SECONDS,
+  );
+  await prisma.user.update({
+    where: {
+      externalID: user.externalID,
+    },
+    data: {
+      lockedUntil: new Date(Date.now() + seconds * 1000),
+    },
+  });
+};
+
+/**
+ * Forgets the failed logins of an account, after a successful login or a password reset
+ */
+export const clearFailedLogins = async (prisma: PrismaClient, userID: string) => {
+  await prisma.user.update({
+    where: {
+      externalID: userID,
+    },
+    data: {
+      failedLogins: 0,
+      lockedUntil: null,
+    },
+  });
+};
@@ -0,0 +1,78 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+
+import { env } from "../env";
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers outgoing mails, selected through `MAIL_DRIVER`
+ */
+export interface MailTransport {
+  send(mail: Mail): Promise<void>;
+}
+
+/**
+ * Prints mails to stdout, meant for local development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(mail: Mail) {
+    console.log(`[mail] to: ${mail.to}\n[mail] subject: ${mail.subject}\n${mail.text}`);
+  }
+}
+
+/**
+ * Writes every mail as a JSON file into a directory, meant for local development and tests
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(mail: Mail) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: env.MAIL_FROM, ...mail }, null, 2),
+    );
+  }
+}
+
+/**
+ * Sends mails through an SMTP server configured by `SMTP_URL`
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(url: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(mail: Mail) {
+    await this.transporter.sendMail({
+      from: env.MAIL_FROM,
+      ...mail,
+    });
+  }
+}
+
+const createMailTransport = (): MailTransport => {
+  switch (env.MAIL_DRIVER) {
+    case "file":
+      return new FileMailTransport(env.MAIL_FILE_DIR);
+    case "smtp":
+      if (!env.SMTP_URL) {
+        throw new Error("SMTP_URL is required when MAIL_DRIVER is smtp");
+      }
+      return new SmtpMailTransport(env.SMTP_URL);
+    default:
+      return new ConsoleMailTransport();
+  }
+};
+
+export const mailer = createMailTransport();
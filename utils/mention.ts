@@ -0,0 +1,43 @@
+import { PrismaClient } from "@prisma/client";
+
+/**
+ * Matches `@username` when not preceded by a word character, so emails are not picked up
+ */
+const MENTION_PATTERN = /(?<![\w@])@([\w.-]*\w)/g;
+
+/**
+ * Extracts the distinct usernames mentioned in a text
+ */
+export const parseMentions = (text: string) => {
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[1]);
+  }
+  return [...usernames];
+};
+
+/**
+ * Resolves the usernames mentioned in a text to members of a board, unknown usernames and users
+ * without access to the board are ignored
+ * @returns {string[]} External IDs of the mentioned users
+ */
+export const resolveMentions = async (prisma: PrismaClient, boardID: string, text: string) => {
+  const usernames = parseMentions(text);
+  if (usernames.length === 0) {
+    return [];
+  }
+  const users = await prisma.user.findMany({
+    where: {
+      username: {
+        in: usernames,
+      },
+      deleted: false,
+      BoardMember: {
+        some: {
+          boardExternalID: boardID,
+        },
+      },
+    },
+  });
+  return users.map((user) => user.externalID);
+};
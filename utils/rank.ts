@@ -0,0 +1,85 @@
+/**
+ * Lexicographic ranks used to order stages within a board and tasks within a stage.
+ * Ranks are compared as plain strings, so a new rank can always be generated between
+ * two neighbours and a reorder only ever rewrites the row being moved.
+ * Only lowercase base-36 digits are used so ordering is unaffected by case-insensitive
+ * MySQL collations.
+ */
+const ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Width at which appended and prepended ranks are counted, leaving room for about 36^3 of them in a row before
+ * ranks have to grow
+ */
+const STEP_WIDTH = 4;
+
+/**
+ * Generates the rank right after (`delta` 1) or right before (`delta` -1) `rank` by counting in base 36 on its
+ * last digit, padded to `STEP_WIDTH` digits, so appending to or prepending to a list keeps ranks short instead
+ * of halving the remaining space every time. Trailing zeros are dropped as nothing could sort between "a" and
+ * "a0", and a digit is added once the count runs out at the current width.
+ * @example
+ * ```ts
+ * stepRank("i", 1) // "i001"
+ * stepRank("i00z", 1) // "i01"
+ * stepRank("i", -1) // "hzzz"
+ * stepRank("zzzz", 1) // "zzzz1"
+ * ```
+ */
+const stepRank = (rank: string, delta: 1 | -1) => {
+  const last = delta > 0 ? ALPHABET.length - 1 : 0;
+  for (let width = Math.max(rank.length, STEP_WIDTH); ; width++) {
+    const digits = [...rank.padEnd(width, "0")].map((digit) => ALPHABET.indexOf(digit));
+    let i = width - 1;
+    while (i >= 0 && digits[i] === last) {
+      digits[i] = ALPHABET.length - 1 - last;
+      i--;
+    }
+    if (i < 0) {
+      continue;
+    }
+    digits[i] += delta;
+    const next = digits.map((digit) => ALPHABET[digit]).join("").replace(/0+$/, "");
+    if (next) {
+      return next;
+    }
+  }
+};
+
+/**
+ * Generates a rank strictly between `before` and `after`
+ * @param before rank of the preceding item, `null` when placing first
+ * @param after rank of the following item, `null` when placing last
+ * @example
+ * ```ts
+ * rankBetween(null, null) // "i"
+ * rankBetween("i", null) // "i001"
+ * rankBetween("a", "b") // "ai"
+ * ```
+ */
+export const rankBetween = (before: string | null = null, after: string | null = null): string => {
+  const lower = before ?? "";
+  let upper = after;
+  if (upper !== null && lower >= upper) {
+    throw new Error(`Cannot rank between "${lower}" and "${upper}"`);
+  }
+  if (before !== null && after === null) {
+    return stepRank(before, 1);
+  }
+  if (before === null && after !== null) {
+    return stepRank(after, -1);
+  }
+  let rank = "";
+  for (let i = 0; ; i++) {
+    const lo = i < lower.length ? ALPHABET.indexOf(lower[i]) : 0;
+    const hi = upper !== null && i < upper.length ? ALPHABET.indexOf(upper[i]) : ALPHABET.length;
+    if (hi - lo > 1) {
+      return rank + ALPHABET[Math.floor((lo + hi) / 2)];
+    }
+    rank += ALPHABET[lo];
+    // Once the rank sorts below `after` at this position, `after` no longer bounds it
+    if (lo < hi) {
+      upper = null;
+    }
+  }
+};
@@ -0,0 +1,142 @@
+import { IncomingMessage } from "http";
+import { TRPCError } from "@trpc/server";
+
+import { env } from "../env";
+
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Cause of the `TOO_MANY_REQUESTS` errors, exposed to tRPC clients through the `retryAfter` field of the
+ * error data and to OpenAPI clients through the `Retry-After` header. `retryAfter` is the number of seconds
+ * left until the current window of the rate limit resets, or until the account lockout ends, not the length
+ * of the window.
+ */
+export class RateLimitError extends Error {
+  constructor(
+    readonly retryAfter: number,
+  ) {
+    super(`Too many requests, try again in ${retryAfter} seconds`);
+    this.name = "RateLimitError";
+  }
+}
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Keeps the hit counters of the rate limits, the in-memory store only limits a single process so deployments
+ * running several of them can provide a shared one
+ */
+export interface RateLimitStore {
+  /**
+   * Counts a hit for a key, starting a new window of `windowMs` once the previous one is over
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Fixed window counters kept in the memory of the process
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, RateLimitHit>();
+
+  constructor() {
+    setInterval(() => this.sweep(), SWEEP_INTERVAL).unref();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    const hit = this.hits.get(key);
+    if (!hit || hit.resetAt <= now) {
+      const fresh = { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+      this.hits.set(key, fresh);
+      return { ...fresh };
+    }
+    hit.count += 1;
+    return { ...hit };
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  /**
+   * Drops the counters of finished windows so idle clients do not pile up
+   */
+  private sweep() {
+    const now = new Date();
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+export const rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+export interface RateLimitOptions {
+  /**
+   * Hits allowed per window
+   */
+  max: number;
+  windowSeconds: number;
+  store?: RateLimitStore;
+}
+
+/**
+ * Resolves the IP of the client of a request, trusting `X-Forwarded-For` only behind a proxy (`TRUST_PROXY`)
+ */
+export const getClientIP = (req: IncomingMessage) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (env.TRUST_PROXY && forwarded) {
+    return (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(",")[0].trim();
+  }
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+/**
+ * Builds the `TOO_MANY_REQUESTS` error telling a client when to try again
+ */
+export const tooManyRequests = (retryAfter: number, message = "Too many requests") => new TRPCError({
+  code: "TOO_MANY_REQUESTS",
+  message: `${message}, try again in ${retryAfter} seconds`,
+  cause: new RateLimitError(retryAfter),
+});
+
+/**
+ * Counts a hit for a key and rejects it once the key went over its limit for the current window
+ * @throws {TRPCError} 429 - Too Many Requests
+ */
+export const hitRateLimit = async (key: string, options: RateLimitOptions) => {
+  const store = options.store ?? rateLimitStore;
+  const hit = await store.increment(key, options.windowSeconds * 1000);
+  if (hit.count > options.max) {
+    throw tooManyRequests(Math.max(1, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000)));
+  }
+};
+
+/**
+ * Reads how many seconds a failed call has left to wait before it can be retried, 0 when it did not fail
+ * because of a rate limit. The OpenAPI adapter hands over the error itself while the tRPC adapter hands over
+ * its formatted shape.
+ */
+const retryAfterOf = (error: unknown) => {
+  if (error instanceof TRPCError) {
+    return error.cause instanceof RateLimitError ? error.cause.retryAfter : 0;
+  }
+  const data = (error as { data?: { retryAfter?: unknown } } | null)?.data;
+  return typeof data?.retryAfter === "number" ? data.retryAfter : 0;
+};
+
+/**
+ * Sets the `Retry-After` header on responses failing because of a rate limit, shared by the tRPC and OpenAPI
+ * adapters
+ */
+export const rateLimitResponseMeta = ({ errors }: { errors: unknown[] }) => {
+  const retryAfter = Math.max(0, ...errors.map(retryAfterOf));
+  return retryAfter > 0 ? { headers: { "Retry-After": String(retryAfter) } } : {};
+};
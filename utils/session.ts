@@ -0,0 +1,64 @@
+import crypto from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { PrismaClient } from "@prisma/client";
+
+import { env } from "../env";
+
+export type JWTPayload = JwtPayload & {
+  externalID: string;
+  sessionID: string;
+};
+
+/**
+ * Hashes a refresh token so only its digest is stored at rest
+ */
+export const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Signs a short-lived access token bound to a session
+ */
+export const signAccessToken = (userID: string, sessionID: string) => jwt.sign({
+  externalID: userID,
+  sessionID,
+}, env.JWT_SECRET, {
+  expiresIn: env.ACCESS_TOKEN_TTL_SECONDS,
+  algorithm: "HS256",
+});
+
+/**
+ * Creates a new session for a user and returns its access and refresh tokens
+ */
+export const createSession = async (prisma: PrismaClient, userID: string) => {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+  const session = await prisma.session.create({
+    data: {
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+      user: {
+        connect: {
+          externalID: userID,
+        },
+      },
+    },
+  });
+  return {
+    token: signAccessToken(userID, session.externalID),
+    refreshToken,
+  };
+};
+
+/**
+ * Revokes every active session of a user, optionally keeping one of them alive
+ */
+export const revokeSessions = async (prisma: PrismaClient, userID: string, exceptSessionID?: string) => {
+  await prisma.session.updateMany({
+    where: {
+      userExternalID: userID,
+      revoked: false,
+      externalID: exceptSessionID ? { not: exceptSessionID } : undefined,
+    },
+    data: {
+      revoked: true,
+    },
+  });
+};
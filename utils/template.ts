@@ -0,0 +1,96 @@
+import { KANBEX_FORMAT_VERSION, KanbexDocument } from "./export";
+
+interface BuiltInTemplate {
+  externalID: string;
+  name: string;
+  description: string;
+  document: KanbexDocument;
+}
+
+/**
+ * Builds a template document out of stage titles, templates made this way carry no tasks
+ */
+const stagesDocument = (stages: string[], labels: KanbexDocument["board"]["labels"] = []): KanbexDocument => ({
+  format: "kanbex",
+  version: KANBEX_FORMAT_VERSION,
+  board: {
+    title: "",
+    description: "",
+    labels,
+    stages: stages.map((title) => ({
+      title,
+      description: "",
+      wipLimit: null,
+      tasks: [],
+    })),
+  },
+});
+
+/**
+ * Templates available to every user, their IDs are fixed so clients can refer to them
+ */
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    externalID: "00000000-0000-4000-8000-000000000001",
+    name: "Kanban",
+    description: "A simple flow from backlog to done",
+    document: stagesDocument(["Backlog", "In Progress", "Review", "Done"]),
+  },
+  {
+    externalID: "00000000-0000-4000-8000-000000000002",
+    name: "Scrum Sprint",
+    description: "Track the stories of a sprint through review and testing",
+    document: stagesDocument(["Sprint Backlog", "In Progress", "In Review", "Testing", "Done"], [
+      { name: "story", color: "#0e8a16" },
+      { name: "spike", color: "#5319e7" },
+    ]),
+  },
+  {
+    externalID: "00000000-0000-4000-8000-000000000003",
+    name: "Bug Tracking",
+    description: "Triage, fix and verify reported bugs",
+    document: stagesDocument(["Reported", "Triaged", "Fixing", "Verifying", "Closed"], [
+      { name: "critical", color: "#b60205" },
+      { name: "regression", color: "#d93f0b" },
+      { name: "minor", color: "#fbca04" },
+    ]),
+  },
+];
+
+/**
+ * Moves the due dates of every task so the earliest one falls on `startDate`, keeping the gaps between them
+ */
+export const shiftDueDates = (document: KanbexDocument, startDate: Date): KanbexDocument => {
+  const dueDates = document.board.stages.flatMap((stage) => stage.tasks.map((task) => task.dueDate.getTime()));
+  if (dueDates.length === 0) {
+    return document;
+  }
+  const offset = startDate.getTime() - dueDates.reduce((earliest, dueDate) => Math.min(earliest, dueDate));
+  return {
+    ...document,
+    board: {
+      ...document.board,
+      stages: document.board.stages.map((stage) => ({
+        ...stage,
+        tasks: stage.tasks.map((task) => ({
+          ...task,
+          dueDate: new Date(task.dueDate.getTime() + offset),
+        })),
+      })),
+    },
+  };
+};
+
+/**
+ * Drops the tasks of a document, keeping its stages and labels
+ */
+export const withoutTasks = (document: KanbexDocument): KanbexDocument => ({
+  ...document,
+  board: {
+    ...document.board,
+    stages: document.board.stages.map((stage) => ({
+      ...stage,
+      tasks: [],
+    })),
+  },
+});
@@ -0,0 +1,98 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+
+import { env } from "../env";
+
+const DAY = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Date after which a soft-deleted record is purged for good
+ */
+export const purgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + env.TRASH_RETENTION_DAYS * DAY);
+
+/**
+ * Hard deletes tasks along with the rows hanging off them
+ */
+const purgeTasks = (prisma: PrismaClient, where: Prisma.TaskWhereInput) => prisma.$transaction(async (tx) => {
+  const tasks = await tx.task.findMany({ where, select: { externalID: true } });
+  const taskIDs = tasks.map((task) => task.externalID);
+  await tx.mention.deleteMany({ where: { comment: { taskExternalID: { in: taskIDs } } } });
+  await tx.comment.deleteMany({ where: { taskExternalID: { in: taskIDs } } });
+  await tx.taskLabel.deleteMany({ where: { taskExternalID: { in: taskIDs } } });
+  await tx.taskAssignee.deleteMany({ where: { taskExternalID: { in: taskIDs } } });
+  await tx.checklistItem.deleteMany({ where: { taskExternalID: { in: taskIDs } } });
+  await tx.taskDependency.deleteMany({
+    where: {
+      OR: [
+        { blockerExternalID: { in: taskIDs } },
+        { blockedExternalID: { in: taskIDs } },
+      ],
+    },
+  });
+  await tx.taskTransition.deleteMany({ where: { taskExternalID: { in: taskIDs } } });
+  await tx.task.deleteMany({ where: { externalID: { in: taskIDs } } });
+  return taskIDs.length;
+});
+
+/**
+ * Hard deletes stages along with all of their tasks, deleted or not
+ */
+const purgeStages = async (prisma: PrismaClient, where: Prisma.StageWhereInput) => {
+  await purgeTasks(prisma, { stage: where });
+  const { count } = await prisma.stage.deleteMany({ where });
+  return count;
+};
+
+/**
+ * Hard deletes boards along with everything they contain and their activity log
+ */
+const purgeBoards = async (prisma: PrismaClient, where: Prisma.BoardWhereInput) => {
+  await purgeStages(prisma, { board: where });
+  const boards = await prisma.board.findMany({ where, select: { externalID: true } });
+  const boardIDs = boards.map((board) => board.externalID);
+  const [, , , , , , { count }] = await prisma.$transaction([
+    prisma.label.deleteMany({ where: { boardExternalID: { in: boardIDs } } }),
+    prisma.calendarFeed.deleteMany({ where: { boardExternalID: { in: boardIDs } } }),
+    prisma.webhookDelivery.deleteMany({ where: { webhook: { boardExternalID: { in: boardIDs } } } }),
+    prisma.webhook.deleteMany({ where: { boardExternalID: { in: boardIDs } } }),
+    prisma.boardMember.deleteMany({ where: { boardExternalID: { in: boardIDs } } }),
+    prisma.activity.deleteMany({ where: { boardExternalID: { in: boardIDs } } }),
+    prisma.board.deleteMany({ where: { externalID: { in: boardIDs } } }),
+  ]);
+  return count;
+};
+
+/**
+ * Hard deletes every board, stage and task that has been in the trash for longer than
+ * `TRASH_RETENTION_DAYS`. Children deleted along with their parent go with it.
+ */
+export const purgeTrash = async (prisma: PrismaClient, now = new Date()) => {
+  const cutoff = new Date(now.getTime() - env.TRASH_RETENTION_DAYS * DAY);
+  // Records deleted before `deletedAt` existed fall back to their last update
+  const expired = {
+    deleted: true,
+    OR: [
+      { deletedAt: { lt: cutoff } },
+      { deletedAt: null, updatedAt: { lt: cutoff } },
+    ],
+  };
+  const boards = await purgeBoards(prisma, expired);
+  const stages = await purgeStages(prisma, expired);
+  const tasks = await purgeTasks(prisma, expired);
+  return { boards, stages, tasks };
+};
+
+/**
+ * Runs `purgeTrash` right away and then every hour for the lifetime of the process
+ */
+export const scheduleTrashPurge = (prisma: PrismaClient) => {
+  const run = () => purgeTrash(prisma)
+    .then(({ boards, stages, tasks }) => {
+      if (boards + stages + tasks > 0) {
+        console.log(`Purged ${boards} boards, ${stages} stages and ${tasks} tasks from the trash`);
+      }
+    })
+    .catch(console.error);
+  run();
+  return setInterval(run, PURGE_INTERVAL).unref();
+};
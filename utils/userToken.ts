@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { PrismaClient, UserTokenType } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { hashToken } from "./session";
+
+/**
+ * Lifetime of each kind of single-use token
+ */
+const TOKEN_TTL: Record<UserTokenType, number> = {
+  [UserTokenType.PASSWORD_RESET]: 60 * 60 * 1000,
+  [UserTokenType.EMAIL_VERIFICATION]: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Issues a single-use token for a user, invalidating the previously issued tokens of the same type
+ * @returns {string} Raw token, only its hash is stored
+ */
+export const issueUserToken = async (prisma: PrismaClient, userID: string, type: UserTokenType) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: {
+        userExternalID: userID,
+        type,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    }),
+    prisma.userToken.create({
+      data: {
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL[type]),
+        user: {
+          connect: {
+            externalID: userID,
+          },
+        },
+      },
+    }),
+  ]);
+  return token;
+};
+
+/**
+ * Marks a token as used and returns the user it was issued for
+ * @throws {TRPCError} 400 - Bad Request
+ */
+export const consumeUserToken = async (prisma: PrismaClient, token: string, type: UserTokenType) => {
+  const userToken = await prisma.userToken.findUnique({
+    where: {
+      tokenHash: hashToken(token),
+    },
+  });
+  if (!userToken || userToken.type !== type || userToken.usedAt || userToken.expiresAt <= new Date()) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid or expired token",
+    });
+  }
+  // Guarded on `usedAt` so two concurrent requests cannot both consume the token
+  const { count } = await prisma.userToken.updateMany({
+    where: {
+      externalID: userToken.externalID,
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid or expired token",
+    });
+  }
+  return userToken.userExternalID;
+};
@@ -0,0 +1,135 @@
+import express, { RequestHandler } from "express";
+import { PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+
+/**
+ * Version a write expects its record to still have. Writes without one apply whatever the current version.
+ * OpenAPI clients may send it as an `If-Match` header instead, see `ifMatchInput`.
+ */
+export const expectedVersionSchema = z.number().int().positive().optional();
+
+/**
+ * Cause of the `CONFLICT` error thrown when a record changed since the client read it. tRPC clients get the
+ * current record in the `current` field of the error data, OpenAPI clients get its version in the `ETag` header
+ * and read it again.
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    readonly current: { version: number },
+  ) {
+    super(`Record has been modified, its current version is ${current.version}`);
+    this.name = "VersionConflictError";
+  }
+}
+
+/**
+ * Parses an `If-Match` header holding an ETag set by `etagResponseMeta`, e.g. `"3"`. Any other value, such as
+ * `*`, expects no version in particular.
+ */
+const parseIfMatch = (header: string | undefined) => {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Builds the `CONFLICT` error carrying the current state of a record
+ */
+export const versionConflict = (current: { version: number }) => new TRPCError({
+  code: "CONFLICT",
+  message: `Record has been modified, its current version is ${current.version}`,
+  cause: new VersionConflictError(current),
+});
+
+/**
+ * Rejects a write based on an outdated version of a record
+ * @throws {TRPCError} 409 - Conflict
+ */
+export const assertVersion = (current: { version: number }, expected: number | undefined) => {
+  if (expected !== undefined && current.version !== expected) {
+    throw versionConflict(current);
+  }
+};
+
+/**
+ * Narrows the rows of a write to the expected version, so a write racing with another one applies to no row
+ * instead of overwriting it
+ */
+export const versionFilter = (expected: number | undefined) => expected === undefined ? {} : { version: expected };
+
+/**
+ * Bumps the version of a task after a change to what its reads return, such as its labels, assignees,
+ * checklist or dependencies
+ */
+export const bumpTaskVersion = (prisma: PrismaClient, taskID: string) => prisma.task.update({
+  where: {
+    externalID: taskID,
+  },
+  data: {
+    version: {
+      increment: 1,
+    },
+  },
+});
+
+/**
+ * Largest request body the OpenAPI middleware parses, `ifMatchInput` parses bodies before it does and must
+ * enforce the same limit
+ */
+export const OPENAPI_MAX_BODY_SIZE = 100_000;
+
+const parseJSON = express.json({ strict: false, limit: OPENAPI_MAX_BODY_SIZE });
+const parseForm = express.urlencoded({ extended: true, limit: OPENAPI_MAX_BODY_SIZE });
+
+/**
+ * Passes the `If-Match` header of an OpenAPI request to its procedure as the `version` input, unless the input
+ * already has one. Unlike a tRPC batch, an OpenAPI request calls a single procedure, so the header cannot
+ * apply to the wrong one. Reads take no version, so their header is ignored.
+ */
+export const ifMatchInput: RequestHandler = (req, res, next) => {
+  const version = parseIfMatch(req.headers["if-match"]);
+  if (version === null || req.method === "GET") {
+    return next();
+  }
+  // trpc-openapi reads the input of DELETE requests from the query string
+  if (req.method === "DELETE") {
+    req.query = { version: String(version), ...req.query };
+    return next();
+  }
+  const parse = req.is("application/x-www-form-urlencoded") ? parseForm : parseJSON;
+  parse(req, res, (error?: unknown) => {
+    if (error) {
+      const tooLarge = (error as { type?: string }).type === "entity.too.large";
+      res.status(tooLarge ? 413 : 400).json(tooLarge
+        ? { message: "Request body too large", code: "PAYLOAD_TOO_LARGE" }
+        : { message: "Failed to parse request body", code: "PARSE_ERROR" });
+      return;
+    }
+    if (req.body && typeof req.body === "object" && !Array.isArray(req.body)) {
+      req.body = { version, ...req.body };
+    }
+    next();
+  });
+};
+
+/**
+ * Reads the version of the record returned by a procedure, outputs wrap it in a single key such as `{ task }`
+ */
+const outputVersion = (output: unknown) => {
+  if (!output || typeof output !== "object") {
+    return null;
+  }
+  const values = Object.values(output);
+  const record = values.length === 1 ? values[0] as { version?: unknown } | null : null;
+  return typeof record?.version === "number" ? record.version : null;
+};
+
+/**
+ * Sets the `ETag` header of OpenAPI responses to the version of the record they return, or to the current
+ * version when a write conflicted, so clients can send it back as `If-Match`
+ */
+export const etagResponseMeta = ({ data, errors }: { data: unknown[]; errors: TRPCError[] }) => {
+  const conflict = errors.find((error) => error.cause instanceof VersionConflictError)?.cause as VersionConflictError | undefined;
+  const version = conflict ? conflict.current.version : data.length === 1 ? outputVersion(data[0]) : null;
+  return version !== null ? { headers: { ETag: `"${version}"` } } : {};
+};
@@ -0,0 +1,227 @@
+import crypto from "crypto";
+import dns from "dns/promises";
+import net from "net";
+import { Activity, ActivityAction, ActivityEntity, Prisma, PrismaClient, Webhook, WebhookDelivery, WebhookDeliveryStatus } from "@prisma/client";
+
+import { env } from "../env";
+import { eventType } from "./events";
+
+const DELIVERY_INTERVAL = 10 * 1000;
+const DELIVERY_BATCH = 50;
+
+/**
+ * Event sent when a webhook is pinged, delivered whatever events the webhook subscribes to
+ */
+export const PING_EVENT = "ping";
+
+/**
+ * Events a webhook can subscribe to, one per kind of change recorded on a board
+ */
+export const WEBHOOK_EVENTS = Object.values(ActivityEntity)
+  .filter((entity) => entity !== ActivityEntity.USER)
+  .flatMap((entity) => Object.values(ActivityAction).map((action) => eventType({ entity, action }))) as [string, ...string[]];
+
+/**
+ * Loopback, private, link-local and otherwise non-public networks webhooks may not call
+ */
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses, such as ::ffff:7f00:1, against the IPv4 subnets
+const isPrivateAddress = (address: string) => PRIVATE_NETWORKS.check(address, net.isIPv4(address) ? "ipv4" : "ipv6");
+
+/**
+ * Tells whether the server may call a webhook URL, which it may only when its host resolves to public addresses
+ * alone. Otherwise any board owner could make the server call internal services. `WEBHOOK_ALLOW_PRIVATE` lifts
+ * the restriction for local test receivers.
+ */
+export const isAllowedWebhookURL = async (url: string) => {
+  if (env.WEBHOOK_ALLOW_PRIVATE) {
+    return true;
+  }
+  try {
+    const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+    const addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+    return addresses.length > 0 && !addresses.some(isPrivateAddress);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Signs a payload with the secret of a webhook, receivers recompute it over the raw request body to
+ * authenticate deliveries
+ */
+export const signPayload = (secret: string, body: string) =>
+  `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+
+/**
+ * Webhooks without any event subscribe to all of them
+ */
+const subscribesTo = (webhook: Webhook, event: string) => {
+  const events = webhook.events as string[];
+  return events.length === 0 || events.includes(event);
+};
+
+/**
+ * Waits twice as long after each failed attempt, starting from `WEBHOOK_RETRY_BASE_SECONDS`
+ */
+const retryDelay = (attempts: number) => env.WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1);
+
+/**
+ * Queues an event for delivery to webhooks and starts delivering it right away
+ */
+export const enqueueDeliveries = async (prisma: PrismaClient, webhooks: Webhook[], event: string, payload: object) => {
+  if (webhooks.length === 0) {
+    return;
+  }
+  await prisma.webhookDelivery.createMany({
+    data: webhooks.map((webhook) => ({
+      webhookExternalID: webhook.externalID,
+      event,
+      payload: payload as Prisma.InputJsonObject,
+      nextAttemptAt: new Date(),
+    })),
+  });
+  processWebhookDeliveries(prisma).catch(console.error);
+};
+
+/**
+ * Queues an activity for delivery to the active webhooks of its board subscribed to its event
+ */
+export const enqueueWebhookDeliveries = async (prisma: PrismaClient, activity: Activity) => {
+  if (!activity.boardExternalID) {
+    return;
+  }
+  const event = eventType(activity);
+  const webhooks = await prisma.webhook.findMany({
+    where: {
+      boardExternalID: activity.boardExternalID,
+      active: true,
+    },
+  });
+  await enqueueDeliveries(prisma, webhooks.filter((webhook) => subscribesTo(webhook, event)), event, {
+    id: activity.externalID,
+    event,
+    boardID: activity.boardExternalID,
+    entity: activity.entity,
+    entityID: activity.entityExternalID,
+    action: activity.action,
+    actorID: activity.userExternalID,
+    before: activity.before,
+    after: activity.after,
+    createdAt: activity.createdAt.toISOString(),
+  });
+};
+
+/**
+ * POSTs a delivery to its webhook and records the outcome. Failed deliveries are retried with an exponential
+ * backoff until `WEBHOOK_MAX_ATTEMPTS` is reached.
+ */
+const attemptDelivery = async (prisma: PrismaClient, delivery: WebhookDelivery & { webhook: Webhook }) => {
+  // Claimed by pushing the next attempt past the request timeout, so concurrent runs skip it
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: {
+      externalID: delivery.externalID,
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: delivery.nextAttemptAt,
+    },
+    data: {
+      nextAttemptAt: new Date(Date.now() + 2 * env.WEBHOOK_TIMEOUT_SECONDS * 1000),
+    },
+  });
+  if (count === 0) {
+    return;
+  }
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  if (!delivery.webhook.active) {
+    error = "Webhook is disabled";
+  } else if (!(await isAllowedWebhookURL(delivery.webhook.url))) {
+    // Checked again on every attempt as the host may resolve elsewhere than when the webhook was saved
+    error = "URL does not resolve to a public address";
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    try {
+      const response = await fetch(delivery.webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Kanbex-Webhook",
+          "X-Kanbex-Event": delivery.event,
+          "X-Kanbex-Delivery": delivery.externalID,
+          "X-Kanbex-Signature": signPayload(delivery.webhook.secret, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_SECONDS * 1000),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Receiver responded with ${response.status}`;
+      }
+    } catch (cause) {
+      // fetch hides network errors such as ECONNREFUSED behind a generic "fetch failed"
+      const reason = cause instanceof Error && cause.cause instanceof Error ? cause.cause : cause;
+      error = reason instanceof Error ? reason.message : String(reason);
+    }
+  }
+  const succeeded = error === null;
+  const exhausted = !delivery.webhook.active || attempts >= env.WEBHOOK_MAX_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: {
+      externalID: delivery.externalID,
+    },
+    data: {
+      attempts,
+      responseStatus,
+      error,
+      status: succeeded ? WebhookDeliveryStatus.SUCCEEDED : exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+      deliveredAt: succeeded ? new Date() : null,
+      nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + retryDelay(attempts)),
+    },
+  });
+};
+
+/**
+ * Attempts every delivery that is due
+ * @returns {number} Number of deliveries attempted
+ */
+export const processWebhookDeliveries = async (prisma: PrismaClient, now = new Date()) => {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: {
+        lte: now,
+      },
+    },
+    include: {
+      webhook: true,
+    },
+    orderBy: {
+      nextAttemptAt: "asc",
+    },
+    take: DELIVERY_BATCH,
+  });
+  await Promise.all(deliveries.map((delivery) => attemptDelivery(prisma, delivery)));
+  return deliveries.length;
+};
+
+/**
+ * Runs `processWebhookDeliveries` every few seconds for the lifetime of the process, picking up retries and
+ * deliveries left over by a previous process
+ */
+export const scheduleWebhookDeliveries = (prisma: PrismaClient) => {
+  const run = () => processWebhookDeliveries(prisma).catch(console.error);
+  run();
+  return setInterval(run, DELIVERY_INTERVAL).unref();
+};
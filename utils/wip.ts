@@ -0,0 +1,40 @@
+import { PrismaClient, Stage } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Cause of the `PRECONDITION_FAILED` error thrown when a stage is full, exposed to tRPC clients
+ * through the `wipLimit` field of the error data
+ */
+export class WipLimitError extends Error {
+  constructor(
+    readonly stageID: string,
+    readonly count: number,
+    readonly limit: number,
+  ) {
+    super(`Stage has reached its WIP limit of ${limit}`);
+    this.name = "WipLimitError";
+  }
+}
+
+/**
+ * Ensures one more task fits in a stage without exceeding its WIP limit, stages without a limit always have room
+ * @throws {TRPCError} 412 - Precondition Failed
+ */
+export const assertWipLimit = async (prisma: PrismaClient, stage: Stage) => {
+  if (stage.wipLimit === null) {
+    return;
+  }
+  const count = await prisma.task.count({
+    where: {
+      stageExternalID: stage.externalID,
+      deleted: false,
+    },
+  });
+  if (count >= stage.wipLimit) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `Stage "${stage.title}" has reached its WIP limit (${count}/${stage.wipLimit})`,
+      cause: new WipLimitError(stage.externalID, count, stage.wipLimit),
+    });
+  }
+};